@@ -1,10 +1,71 @@
-import type { Rate } from '$lib/server/rate.js';
+import {
+  TTLTime,
+  rateWindowEnd,
+  toTTLRate,
+  type Rate,
+  type RateDuration,
+  type RateUnit
+} from '$lib/server/rate.js';
 import type { RateLimiterPlugin } from '$lib/server/limiters/rateLimiterPlugin.js';
 import { RateLimiter } from '$lib/server/rateLimiter.js';
 import { RetryAfterRateLimiter } from '$lib/server/retryAfterRateLimiter.js';
+import { consume, type AlgorithmState } from '$lib/server/algorithms.js';
 import type { RequestEvent } from '@sveltejs/kit';
-import { describe, it, expect, beforeEach, assert } from 'vitest';
+import {
+  describe,
+  it,
+  expect,
+  expectTypeOf,
+  beforeEach,
+  assert,
+  vi
+} from 'vitest';
 import { mock } from 'vitest-mock-extended';
+import RedisMock from 'ioredis-mock';
+import {
+  RedisStore,
+  type RedisStoreClient
+} from '$lib/server/stores/redisStore.js';
+import { TTLStore } from '$lib/server/stores/ttlStore.js';
+import {
+  DurableObjectStore,
+  MemoryDurableObjectNamespace,
+  RateLimiterDurableObject,
+  type DurableObjectStorageLike
+} from '$lib/server/stores/durableObjectStore.js';
+import { KVStore, MemoryKVNamespace } from '$lib/server/stores/kvStore.js';
+import {
+  SqlStore,
+  sqlStoreSchema,
+  type SqlExecutor
+} from '$lib/server/stores/sqlStore.js';
+import { TieredStore } from '$lib/server/stores/tieredStore.js';
+import { FileStore } from '$lib/server/stores/fileStore.js';
+import { mkdtemp, readdir, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import initSqlJs, { type SqlValue } from 'sql.js';
+import type {
+  LegacyRateLimiterStore,
+  RateLimiterStore
+} from '$lib/server/stores/rateLimiterStore.js';
+import { createRateLimitHandle } from '$lib/server/handle.js';
+import { createTelemetryHooks, type MeterLike } from '$lib/server/telemetry.js';
+import {
+  cidrMatcher,
+  createIPResolver,
+  normalizeIP,
+  parseIP
+} from '$lib/server/ip.js';
+import { ProxyIPRateLimiter } from '$lib/server/limiters/proxyIpRateLimiter.js';
+import {
+  AllowListPlugin,
+  DenyListPlugin
+} from '$lib/server/limiters/listPlugins.js';
+import {
+  ApiKeyRateLimiter,
+  UserRateLimiter
+} from '$lib/server/limiters/identityRateLimiter.js';
 
 const hashFunction = async (input: string) => {
   const msgUint8 = new TextEncoder().encode(input);
@@ -164,55 +225,56 @@ describe('Basic rate limiter', async () => {
 
     const event = mockEvent() as RequestEvent;
 
+    // Hits counted before a limiting rate are refunded
     expect(await limiter.isLimited(event)).toEqual(false); //  1 1 1
     expect(await limiter.isLimited(event)).toEqual(false); //  2 2 2
     expect(await limiter.check(event)).toEqual({
       limited: true,
       reason: 'cookie'
-    }); // 3 2 2 (Cookie fails)
+    }); // 2 2 2 (Cookie fails)
 
     event.cookies.delete('testcookie', { path: '/' });
 
     expect(await limiter.isLimited(event)).toEqual(false); //  1 3 3
     expect(await limiter.isLimited(event)).toEqual(false); //  2 4 4
-    expect(await limiter.isLimited(event)).toEqual(true); // 3 4 4 (Cookie fails)
+    expect(await limiter.isLimited(event)).toEqual(true); // 2 4 4 (Cookie fails)
 
     event.cookies.delete('testcookie', { path: '/' });
 
     expect(await limiter.isLimited(event)).toEqual(false); //  1 5 5
-    expect(await limiter.isLimited(event)).toEqual(true); // 2 6 5 (UA fails)
+    expect(await limiter.isLimited(event)).toEqual(true); // 1 5 5 (UA fails)
 
     event.request.headers.set('User-Agent', 'Edge');
 
-    expect(await limiter.isLimited(event)).toEqual(true); // 3 1 6 (Cookie fails)
-    expect(await limiter.isLimited(event)).toEqual(true); // 3 1 6 (Cookie fails)
+    expect(await limiter.isLimited(event)).toEqual(false); // 2 1 6
+    expect(await limiter.isLimited(event)).toEqual(true); // 2 1 6 (Cookie fails)
 
     event.cookies.delete('testcookie', { path: '/' });
 
     expect(await limiter.isLimited(event)).toEqual(false); //   1 2 7
     expect(await limiter.isLimited(event)).toEqual(false); //   2 3 8
-    expect(await limiter.isLimited(event)).toEqual(true); //  3 3 8 (Cookie fails)
+    expect(await limiter.isLimited(event)).toEqual(true); //  2 3 8 (Cookie fails)
 
     event.cookies.delete('testcookie', { path: '/' });
 
     expect(await limiter.isLimited(event)).toEqual(false); //   1 4 9
     expect(await limiter.isLimited(event)).toEqual(false); //   2 5 10
-    expect(await limiter.isLimited(event)).toEqual(true); //  3 5 10 (Cookie fails)
+    expect(await limiter.isLimited(event)).toEqual(true); //  2 5 10 (Cookie fails)
 
     event.cookies.delete('testcookie', { path: '/' });
 
-    expect(await limiter.isLimited(event)).toEqual(false); //  1 6 10 (UA fails)
+    expect(await limiter.isLimited(event)).toEqual(true); //  0 5 10 (UA fails)
 
     event.request.headers.set('User-Agent', 'Safari');
 
-    expect(await limiter.isLimited(event)).toEqual(true); //  2 1 11 (IP fails)
-    expect(await limiter.isLimited(event)).toEqual(true); //  3 1 11 (UA fails)
+    expect(await limiter.isLimited(event)).toEqual(true); //  0 0 10 (IP fails)
+    expect(await limiter.isLimited(event)).toEqual(true); //  0 0 10 (IP fails)
 
     await delay(500);
 
     expect(await limiter.isLimited(event)).toEqual(false); //  1 1 1
     expect(await limiter.isLimited(event)).toEqual(false); //  2 2 2
-    expect(await limiter.isLimited(event)).toEqual(true); // 3 3 3 (Cookie fails)
+    expect(await limiter.isLimited(event)).toEqual(true); // 2 2 2 (Cookie fails)
 
     expect(limits).toEqual(new Array(10).fill('rate'));
   });
@@ -565,4 +627,2846 @@ describe('Retry-After rate limiter', () => {
     status = await limiter.check(event);
     expect(status).toEqual({ limited: false, retryAfter: 0 });
   });
+
+  it('should calculate the retry time from the reset time of the store', async () => {
+    const event = mockEvent() as RequestEvent;
+    const resetAt = Date.now() + 30000;
+    const store: RateLimiterStore = {
+      add: () => ({ count: 10, resetAt }),
+      clear: () => {}
+    };
+
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [5, 'h'],
+      store
+    });
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThanOrEqual(29);
+    expect(status.retryAfter).toBeLessThanOrEqual(30);
+  });
+
+  it('should count down the retry time with a store returning only a count', async () => {
+    const event = mockEvent() as RequestEvent;
+    let count = 0;
+    const store: LegacyRateLimiterStore = {
+      add: () => ++count,
+      delete: () => {
+        count = 0;
+      },
+      clear: () => {
+        count = 0;
+      }
+    };
+
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [1, '2s'],
+      store
+    });
+
+    expect((await limiter.check(event)).limited).toEqual(false);
+    let status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThanOrEqual(1);
+
+    await delay(1100);
+
+    status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toEqual(0);
+
+    await limiter.reset(event);
+    expect((await limiter.check(event)).limited).toEqual(false);
+    status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should still support a separate retry-after store', async () => {
+    const event = mockEvent() as RequestEvent;
+    const retryAt = Date.now() + 120000;
+    const retryAfterStore: LegacyRateLimiterStore = {
+      add: () => retryAt,
+      clear: () => {}
+    };
+
+    const limiter = new RetryAfterRateLimiter(
+      { hashFunction, IP: [1, 'm'] },
+      retryAfterStore
+    );
+
+    await limiter.check(event);
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThanOrEqual(119);
+    expect(status.retryAfter).toBeLessThanOrEqual(120);
+  });
+});
+
+describe('Rate algorithms', () => {
+  it('should use a sliding window log', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      algorithm: 'sliding-window-log',
+      IP: [2, '250ms']
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    await delay(150);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    // Only the first hit has expired
+    await delay(110);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+  });
+
+  it('should use a token bucket with burst capacity', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: { limit: 1, unit: '100ms', algorithm: 'token-bucket', burst: 3 }
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await delay(110);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+  });
+
+  it('should mix algorithms per rate', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [
+        { limit: 1, unit: '250ms', algorithm: 'sliding-window-log' },
+        [3, 'm']
+      ]
+    });
+
+    expect(await limiter.check(event)).toEqual({ limited: false });
+    expect(await limiter.check(event)).toEqual({ limited: true, reason: 'IP' });
+  });
+
+  it('should weight the previous window for the sliding window counter', () => {
+    const rate = {
+      limit: 4,
+      ttl: 1000,
+      algorithm: 'sliding-window-counter'
+    } as const;
+
+    let state: AlgorithmState | undefined = undefined;
+    for (let i = 0; i < 4; i++) {
+      const result = consume(state, rate, 10500);
+      expect(result.count).toEqual(i + 1);
+      state = result.state;
+    }
+
+    // 75% of the previous window overlaps: 3 + 1
+    let result = consume(state, rate, 11250);
+    expect(result.count).toEqual(4);
+
+    result = consume(result.state, rate, 11250);
+    expect(result.count).toEqual(5);
+    expect(result.resetAt).toEqual(11251);
+
+    // Halfway, 2 from the previous window + 1 in the current
+    result = consume(result.state, rate, 11500);
+    expect(result.count).toEqual(4);
+  });
+
+  it('should not allow burst over the window boundary, unlike fixed window', () => {
+    const log = {
+      limit: 2,
+      ttl: 1000,
+      algorithm: 'sliding-window-log'
+    } as const;
+    const fixed = { ...log, algorithm: 'fixed-window' } as const;
+
+    for (const [rate, expected] of [
+      [log, 3],
+      [fixed, 2]
+    ] as const) {
+      let result = consume(undefined, rate, 0);
+      result = consume(result.state, rate, 990);
+      result = consume(result.state, rate, 1001);
+      result = consume(result.state, rate, 1002);
+      expect(result.count).toEqual(expected);
+    }
+  });
+
+  it('should throw if the store does not support the algorithm', () => {
+    expect(
+      () =>
+        new RateLimiter({
+          hashFunction,
+          algorithm: 'token-bucket',
+          IP: [2, 's'],
+          store: { add: () => 1, clear: () => {} }
+        })
+    ).toThrow('not supported');
+  });
+
+  it('should throw if burst is used without the token-bucket algorithm', () => {
+    expect(
+      () =>
+        new RateLimiter({
+          hashFunction,
+          IP: { limit: 2, unit: 's', burst: 5 }
+        })
+    ).toThrow('token-bucket');
+  });
+});
+
+describe('RateLimit headers', () => {
+  function headersEvent() {
+    const event = mockEvent() as RequestEvent;
+    const headers: Record<string, string> = {};
+    event.setHeaders = (newHeaders) => Object.assign(headers, newHeaders);
+    return { event, headers };
+  }
+
+  it('should report the status of the most restrictive rate', async () => {
+    const { event } = headersEvent();
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [5, 'm'],
+      IPUA: [3, 's']
+    });
+
+    expect(limiter.rateLimitInfo(event)).toBeUndefined();
+
+    await limiter.isLimited(event);
+    expect(limiter.rateLimitInfo(event)).toMatchObject({
+      limited: false,
+      limit: 3,
+      remaining: 2,
+      window: 1000
+    });
+
+    await limiter.isLimited(event);
+    await limiter.isLimited(event);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    const info = limiter.rateLimitInfo(event);
+    assert(info);
+    expect(info).toMatchObject({ limited: true, limit: 3, remaining: 0 });
+    expect(info.resetAt).toBeGreaterThan(Date.now());
+    expect(info.resetAt).toBeLessThanOrEqual(Date.now() + 1000);
+  });
+
+  it('should set the draft RateLimit headers', async () => {
+    const { event, headers } = headersEvent();
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [2, 'm']
+    });
+
+    await limiter.isLimited(event);
+    limiter.setRateLimitHeaders(event);
+
+    expect(headers).toEqual({
+      RateLimit: 'limit=2, remaining=1, reset=60',
+      'RateLimit-Policy': '2;w=60'
+    });
+  });
+
+  it('should set the legacy headers and Retry-After when limited', async () => {
+    const { event, headers } = headersEvent();
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [1, 'm']
+    });
+
+    await limiter.isLimited(event);
+    await limiter.isLimited(event);
+    limiter.setRateLimitHeaders(event, 'legacy');
+
+    expect(headers['X-RateLimit-Limit']).toEqual('1');
+    expect(headers['X-RateLimit-Remaining']).toEqual('0');
+    expect(Number(headers['X-RateLimit-Reset'])).toBeGreaterThanOrEqual(
+      Math.floor(Date.now() / 1000) + 59
+    );
+    expect(headers['Retry-After']).toEqual('60');
+  });
+
+  it('should not set any headers when the limiter is bypassed', async () => {
+    const { event, headers } = headersEvent();
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [new ShortCircuitPlugin(true, [1, 's'])],
+      IP: [1, 'm']
+    });
+
+    await limiter.isLimited(event);
+    limiter.setRateLimitHeaders(event);
+
+    expect(headers).toEqual({});
+  });
+});
+
+describe('Redis store', () => {
+  async function redisClient() {
+    const redis = new RedisMock();
+    await redis.flushall();
+    const client: RedisStoreClient = {
+      eval: (script, keys, args) =>
+        redis.eval(script, keys.length, ...keys, ...args)
+    };
+    return { redis, client };
+  }
+
+  it('should limit requests with the fixed window', async () => {
+    const { client } = await redisClient();
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      store: new RedisStore({ client, prefix: 'test' }),
+      IP: [2, '250ms']
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    const info = limiter.rateLimitInfo(event);
+    assert(info);
+    expect(info.resetAt).toBeLessThanOrEqual(Date.now() + 250);
+
+    await delay(260);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should count the same way as the in-memory store for all algorithms', async () => {
+    const { client } = await redisClient();
+    const store = new RedisStore({ client, prefix: 'test' });
+
+    for (const rate of [
+      { limit: 3, ttl: 60000, algorithm: 'sliding-window-log' },
+      { limit: 3, ttl: 60000, algorithm: 'sliding-window-counter' },
+      { limit: 1, ttl: 60000, algorithm: 'token-bucket', burst: 3 }
+    ] as const) {
+      const memory = new TTLStore(rate.ttl);
+      const counts: number[] = [];
+      const expected: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        counts.push((await store.add(rate.algorithm, rate.ttl, rate)).count);
+        expected.push((await memory.add(rate.algorithm, rate.ttl, rate)).count);
+      }
+      expect(counts).toEqual(expected);
+      expect(counts).toEqual([1, 2, 3, 4, 4]);
+    }
+  });
+
+  it('should share the limits between store instances', async () => {
+    const { client } = await redisClient();
+    const event = mockEvent() as RequestEvent;
+
+    const limiters = [1, 2].map(
+      () =>
+        new RateLimiter({
+          hashFunction,
+          store: new RedisStore({ client, prefix: 'shared' }),
+          IP: [2, 'm']
+        })
+    );
+
+    expect(await limiters[0].isLimited(event)).toEqual(false);
+    expect(await limiters[1].isLimited(event)).toEqual(false);
+    expect(await limiters[0].isLimited(event)).toEqual(true);
+  });
+
+  it('should only clear the keys with its own prefix', async () => {
+    const { redis, client } = await redisClient();
+    const login = new RedisStore({ client, prefix: 'login' });
+    const nested = new RedisStore({ client, prefix: 'login:reset' });
+    const other = new RedisStore({ client, prefix: 'other' });
+
+    await login.add('a:b', 60000);
+    await nested.add('a', 60000);
+    await other.add('a', 60000);
+
+    await login.clear();
+
+    expect((await redis.keys('*')).sort()).toEqual([
+      'login:reset:a',
+      'other:a'
+    ]);
+  });
+
+  it('should clear in batches with the scan method of the client', async () => {
+    const { redis, client } = await redisClient();
+    // Like Redis, keys present for the whole scan are returned once,
+    // even when others are deleted in between
+    let scanned: string[] = [];
+    const scan = vi.fn(
+      async (cursor: string, pattern: string, count: number) => {
+        if (cursor == '0') scanned = (await redis.keys(pattern)).sort();
+        const end = Number(cursor) + count;
+        const next = end < scanned.length ? String(end) : '0';
+        return [next, scanned.slice(Number(cursor), end)] as [string, string[]];
+      }
+    );
+    const evalSpy = vi.spyOn(client, 'eval');
+    const store = new RedisStore({ client: { ...client, scan }, prefix: 'a' });
+
+    for (let i = 0; i < 250; i++) await store.block('hash' + i, 60000);
+    await redis.set('a:nested:key', '1');
+    evalSpy.mockClear();
+
+    await store.clear();
+
+    expect(await redis.keys('*')).toEqual(['a:nested:key']);
+    expect(scan.mock.calls.length).toBeGreaterThan(1);
+    for (const [, keys] of evalSpy.mock.calls) {
+      expect(keys.length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should require a prefix', async () => {
+    const { client } = await redisClient();
+    expect(() => new RedisStore({ client, prefix: '' })).toThrow('prefix');
+  });
+});
+
+describe('Rate limit handle', () => {
+  function handleEvent(
+    url: string,
+    init: { method?: string; routeId?: string; accept?: string } = {}
+  ) {
+    const headers: Record<string, string> = {};
+    const event = {
+      ...mockEvent(),
+      url: new URL(url),
+      route: { id: init.routeId ?? null },
+      request: new Request(url, {
+        method: init.method ?? 'GET',
+        headers: { 'User-Agent': 'Chrome', Accept: init.accept ?? '*/*' }
+      }),
+      setHeaders: (newHeaders: Record<string, string>) =>
+        Object.assign(headers, newHeaders)
+    } as unknown as RequestEvent;
+    return { event, headers };
+  }
+
+  const resolve = async () => new Response('OK');
+
+  it('should limit requests matching the rules', async () => {
+    const handle = createRateLimitHandle({
+      rules: [
+        { routeId: '/login', action: 'login', options: { IP: [1, 'm'] } },
+        { path: '/api/**', method: 'GET', options: { IP: [2, 'm'] } }
+      ]
+    });
+
+    const login = () =>
+      handleEvent('https://test.com/login?/login', {
+        method: 'POST',
+        routeId: '/login'
+      }).event;
+
+    expect((await handle({ event: login(), resolve })).status).toEqual(200);
+    expect((await handle({ event: login(), resolve })).status).toEqual(429);
+
+    // Other actions and methods are not limited
+    const { event: register } = handleEvent(
+      'https://test.com/login?/register',
+      { method: 'POST', routeId: '/login' }
+    );
+    expect((await handle({ event: register, resolve })).status).toEqual(200);
+
+    const { event: get } = handleEvent('https://test.com/login', {
+      routeId: '/login'
+    });
+    expect((await handle({ event: get, resolve })).status).toEqual(200);
+
+    const api = () => handleEvent('https://test.com/api/v1/users').event;
+    expect((await handle({ event: api(), resolve })).status).toEqual(200);
+    expect((await handle({ event: api(), resolve })).status).toEqual(200);
+    expect((await handle({ event: api(), resolve })).status).toEqual(429);
+
+    const { event: post } = handleEvent('https://test.com/api/v1/users', {
+      method: 'POST'
+    });
+    expect((await handle({ event: post, resolve })).status).toEqual(200);
+  });
+
+  it('should match the default action', async () => {
+    const handle = createRateLimitHandle({
+      rules: [{ action: 'default', options: { IP: [1, 'm'] } }]
+    });
+
+    const post = () =>
+      handleEvent('https://test.com/contact', { method: 'POST' }).event;
+
+    expect((await handle({ event: post(), resolve })).status).toEqual(200);
+    expect((await handle({ event: post(), resolve })).status).toEqual(429);
+  });
+
+  it('should respond with JSON or HTML', async () => {
+    const handle = createRateLimitHandle({
+      rules: [{ path: '/*', options: { IP: [0, 'm'] } }],
+      message: 'Slow down <now>'
+    });
+
+    const json = await handle({
+      event: handleEvent('https://test.com/').event,
+      resolve
+    });
+    expect(json.headers.get('Content-Type')).toEqual('application/json');
+    expect(json.headers.get('Retry-After')).toEqual('60');
+    expect(await json.json()).toEqual({
+      message: 'Slow down <now>',
+      retryAfter: 60
+    });
+
+    const html = await handle({
+      event: handleEvent('https://test.com/', { accept: 'text/html' }).event,
+      resolve
+    });
+    expect(html.headers.get('Content-Type')).toMatch(/^text\/html/);
+    expect(await html.text()).toContain('Slow down &#60;now&#62;');
+  });
+
+  it('should use a custom response and set RateLimit headers', async () => {
+    const handle = createRateLimitHandle({
+      rules: [{ options: { IP: [1, 'm'] } }],
+      headers: 'legacy',
+      response: (_, status) =>
+        new Response('Limited by ' + status.reason, { status: 503 })
+    });
+
+    const { event, headers } = handleEvent('https://test.com/');
+    expect((await handle({ event, resolve })).status).toEqual(200);
+    expect(headers['X-RateLimit-Remaining']).toEqual('0');
+
+    const response = await handle({
+      event: handleEvent('https://test.com/').event,
+      resolve
+    });
+    expect(response.status).toEqual(503);
+    expect(await response.text()).toEqual('Limited by IP');
+  });
+
+  it('should use a limiter shared with the routes for cookie preflight', async () => {
+    const cookie = {
+      name: 'testcookie',
+      secret: 'SECRET',
+      rate: [1, 'm'] as Rate,
+      preflight: true
+    };
+    const limiter = new RateLimiter({ hashFunction, cookie });
+    const handle = createRateLimitHandle({
+      rules: [{ routeId: '/login', limiter }]
+    });
+
+    const { event } = handleEvent('https://test.com/login', {
+      routeId: '/login'
+    });
+    expect((await handle({ event, resolve })).status).toEqual(429);
+
+    await limiter.cookieLimiter?.preflight(event);
+    expect((await handle({ event, resolve })).status).toEqual(200);
+    expect((await handle({ event, resolve })).status).toEqual(429);
+
+    expect(() =>
+      createRateLimitHandle({ rules: [{ options: { cookie } }] })
+    ).toThrow('requires passing the limiter');
+  });
+});
+
+describe('Peeking at the limits', () => {
+  it('should return the status without counting a hit', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [3, 'm'],
+      IPUA: { limit: 2, unit: 's', algorithm: 'sliding-window-log' }
+    });
+
+    let status = await limiter.peek(event);
+    expect(status.map((s) => [s.plugin, s.count, s.remaining])).toEqual([
+      ['IPUA', 0, 2],
+      ['IP', 0, 3]
+    ]);
+
+    await limiter.isLimited(event);
+    await limiter.peek(event);
+    await limiter.isLimited(event);
+
+    status = await limiter.peek(event);
+    expect(status.map((s) => [s.plugin, s.count, s.remaining])).toEqual([
+      ['IPUA', 2, 0],
+      ['IP', 2, 1]
+    ]);
+    expect(status[1]).toMatchObject({ limit: 3, rate: { ttl: 60000 } });
+    expect(status[1].resetAt).toBeGreaterThan(Date.now() + 59000);
+
+    expect(await limiter.isLimited(event)).toEqual(true);
+  });
+
+  it('should skip plugins not returning a hash', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [new ShortCircuitPlugin(null, [1, 's'])],
+      IP: [3, 'm']
+    });
+
+    const status = await limiter.peek(event);
+    expect(status.map((s) => s.plugin)).toEqual(['IP']);
+  });
+
+  it('should not issue cookies to the clients', async () => {
+    const event = mockEvent() as RequestEvent;
+    const issued: RequestEvent[] = [];
+    const limiter = new RateLimiter({
+      hashFunction,
+      cookie: {
+        name: 'limiterid',
+        secret: 'secret',
+        rate: [2, 'm'],
+        preflight: false,
+        onPreflightIssued: (e) => {
+          issued.push(e);
+        }
+      }
+    });
+
+    expect(await limiter.peek(event)).toEqual([]);
+    await limiter.reset(event);
+    await limiter.penalize(event, 1);
+    expect(event.cookies.get('limiterid')).toBeUndefined();
+    expect(issued).toEqual([]);
+
+    await limiter.isLimited(event);
+    expect(issued).toEqual([event]);
+
+    const status = await limiter.peek(event);
+    expect(status.map((s) => [s.plugin, s.count])).toEqual([['cookie', 1]]);
+    expect(issued).toEqual([event]);
+  });
+
+  it('should peek with the Redis store', async () => {
+    const redis = new RedisMock();
+    await redis.flushall();
+
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      store: new RedisStore({
+        client: {
+          eval: (script, keys, args) =>
+            redis.eval(script, keys.length, ...keys, ...args)
+        },
+        prefix: 'peek'
+      }),
+      IP: [3, 'm'],
+      IPUA: { limit: 2, unit: 'm', algorithm: 'token-bucket' }
+    });
+
+    await limiter.isLimited(event);
+    await limiter.peek(event);
+
+    const status = await limiter.peek(event);
+    expect(status.map((s) => [s.plugin, s.count, s.remaining])).toEqual([
+      ['IPUA', 1, 1],
+      ['IP', 1, 2]
+    ]);
+  });
+
+  it('should throw if the store does not support it', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [3, 'm'],
+      store: { add: () => 1, clear: () => {} }
+    });
+
+    await expect(limiter.peek(mockEvent() as RequestEvent)).rejects.toThrow(
+      'peek'
+    );
+  });
+});
+
+describe('Managing the limits of a single client', () => {
+  it('should reset the limits for a client only', async () => {
+    const event = mockEvent() as RequestEvent;
+    const other = mockEvent() as RequestEvent;
+    other.getClientAddress = () => '123.123.123.123';
+
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [1, 'm'],
+      IPUA: [1, 's']
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(other)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await limiter.reset(event);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(other)).toEqual(true);
+  });
+
+  it('should reset with an identifier', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({ hashFunction, IP: [1, 'm'] });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await limiter.reset(event.getClientAddress());
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should refund only the counted hits', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [3, 'm'],
+      IPUA: { limit: 2, unit: 'm', algorithm: 'sliding-window-log' }
+    });
+
+    await limiter.isLimited(event);
+    await limiter.refund(event);
+    // Refunding twice has no effect
+    await limiter.refund(event);
+    await limiter.isLimited(event);
+
+    expect((await limiter.peek(event)).map((s) => s.count)).toEqual([1, 1]);
+
+    await limiter.isLimited(event);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    // The limited request didn't count any hits
+    await limiter.refund(event);
+    expect((await limiter.peek(event)).map((s) => s.count)).toEqual([2, 2]);
+  });
+
+  it('should add penalty hits up to the limit', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [10, 'm'],
+      IPUA: { limit: 3, unit: 'm', algorithm: 'token-bucket' }
+    });
+
+    await limiter.penalize(event, 5);
+    expect((await limiter.peek(event)).map((s) => s.count)).toEqual([3, 5]);
+    expect(await limiter.isLimited(event)).toEqual(true);
+  });
+
+  it('should block a client for a duration', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [10, 's']
+    });
+
+    expect(await limiter.check(event)).toEqual({
+      limited: false,
+      retryAfter: 0
+    });
+
+    await limiter.block(event, 'h');
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThan(3590);
+
+    await limiter.reset(event);
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should hash the client once when resetting', async () => {
+    const event = mockEvent() as RequestEvent;
+    const hash = vi.fn(() => 'client');
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      plugins: [{ rate: [1, 'm'], hash }]
+    });
+
+    await limiter.check(event);
+    assert((await limiter.check(event)).limited);
+    hash.mockClear();
+
+    await limiter.reset(event);
+    expect(hash).toHaveBeenCalledOnce();
+    expect(await limiter.check(event)).toEqual({
+      limited: false,
+      retryAfter: 0
+    });
+  });
+
+  it('should block with the Redis store', async () => {
+    const redis = new RedisMock();
+    await redis.flushall();
+
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      store: new RedisStore({
+        client: {
+          eval: (script, keys, args) =>
+            redis.eval(script, keys.length, ...keys, ...args)
+        },
+        prefix: 'block'
+      }),
+      IP: { limit: 2, unit: 'm', algorithm: 'sliding-window-counter' }
+    });
+
+    await limiter.isLimited(event);
+    await limiter.refund(event);
+    expect((await limiter.peek(event))[0].count).toEqual(0);
+
+    await limiter.block(event, 150);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await delay(160);
+    expect(await limiter.isLimited(event)).toEqual(false);
+
+    await limiter.penalize(event, 1);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await limiter.reset(event);
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should throw if the store does not support the operation', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [3, 'm'],
+      store: { add: () => 1, clear: () => {} }
+    });
+
+    await expect(limiter.reset(event)).rejects.toThrow('reset');
+    await expect(limiter.refund(event)).rejects.toThrow('weighted');
+    await expect(limiter.block(event, 1000)).rejects.toThrow('block');
+  });
+});
+
+describe('Reserving requests', () => {
+  it('should refund the hits of a cancelled reservation', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({ hashFunction, IP: [2, 'm'] });
+
+    const ticket = await limiter.reserve(event);
+    expect(ticket.limited).toEqual(false);
+    expect((await limiter.peek(event))[0].count).toEqual(1);
+
+    await ticket.cancel();
+    // Settling twice has no effect
+    await ticket.cancel();
+    expect((await limiter.peek(event))[0].count).toEqual(0);
+
+    await (await limiter.reserve(event)).commit();
+    await (await limiter.reserve(event)).commit();
+
+    const limited = await limiter.reserve(event);
+    expect(limited.limited).toEqual(true);
+    // The committed hits are kept
+    await limited.cancel();
+    expect(await limiter.isLimited(event)).toEqual(true);
+  });
+
+  it('should only count failed outcomes with skipSuccessful', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [2, 'm'],
+      skipSuccessful: true
+    });
+
+    for (let i = 0; i < 5; i++) {
+      await (await limiter.reserve(event)).settle(true);
+    }
+
+    await (await limiter.reserve(event)).settle(false);
+    await (await limiter.reserve(event)).settle(false);
+
+    const ticket = await limiter.reserve(event);
+    assert(ticket.limited);
+    expect(ticket.retryAfter).toBeGreaterThan(55);
+  });
+
+  it('should commit successful outcomes without skipSuccessful', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({ hashFunction, IP: [1, 'm'] });
+
+    await (await limiter.reserve(event)).settle(true);
+    expect((await limiter.reserve(event)).limited).toEqual(true);
+  });
+
+  it('should work with a custom weighted store', async () => {
+    const counts = new Map<string, number>();
+    const store: LegacyRateLimiterStore = {
+      weighted: true,
+      add(hash, _ttl, _rate, cost = 1) {
+        const count = (counts.get(hash) ?? 0) + cost;
+        counts.set(hash, count);
+        return count;
+      },
+      clear() {
+        counts.clear();
+      }
+    };
+
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      store,
+      IP: [1, 'm'],
+      skipSuccessful: true
+    });
+
+    await (await limiter.reserve(event)).settle(true);
+    expect([...counts.values()]).toEqual([0]);
+
+    await (await limiter.reserve(event)).settle(false);
+    expect((await limiter.reserve(event)).limited).toEqual(true);
+  });
+
+  it('should settle reservations in the handle', async () => {
+    const handle = createRateLimitHandle({
+      rules: [{ options: { IP: [1, 'm'], skipSuccessful: true } }]
+    });
+
+    const event = () => mockEvent() as RequestEvent;
+    const ok = async () => new Response('OK');
+    const failed = async () => new Response('Unauthorized', { status: 401 });
+
+    expect((await handle({ event: event(), resolve: ok })).status).toEqual(200);
+    expect((await handle({ event: event(), resolve: ok })).status).toEqual(200);
+    expect((await handle({ event: event(), resolve: failed })).status).toEqual(
+      401
+    );
+    expect((await handle({ event: event(), resolve: ok })).status).toEqual(429);
+  });
+
+  it('should require a weighted store', async () => {
+    const store = { add: () => 1, clear: () => {} };
+
+    expect(
+      () => new RateLimiter({ store, IP: [1, 'm'], skipSuccessful: true })
+    ).toThrow('weighted');
+
+    const limiter = new RateLimiter({ store, IP: [1, 'm'] });
+    await expect(limiter.reserve(mockEvent() as RequestEvent)).rejects.toThrow(
+      'weighted'
+    );
+  });
+});
+
+describe('Weighted requests', () => {
+  class UploadPlugin implements RateLimiterPlugin<{ files: number }> {
+    readonly rate: Rate = [20, 's'];
+
+    async hash(event: RequestEvent, extraData: { files: number }) {
+      return { hash: event.getClientAddress(), cost: extraData.files };
+    }
+  }
+
+  it('should count the cost of a request', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({ hashFunction, IP: [60, 'm'] });
+
+    expect(await limiter.check(event, undefined, { cost: 50 })).toEqual({
+      limited: false
+    });
+    expect(await limiter.isLimited(event, undefined, { cost: 40 })).toEqual(
+      true
+    );
+
+    // The rejected request didn't consume any quota
+    expect(await limiter.isLimited(event, undefined, { cost: 10 })).toEqual(
+      false
+    );
+    expect((await limiter.peek(event))[0].count).toEqual(60);
+    expect(await limiter.isLimited(event)).toEqual(true);
+  });
+
+  it('should not read the options from extra data with a cost', async () => {
+    class OrderPlugin implements RateLimiterPlugin<{ cost: number }> {
+      readonly rate: Rate = [5, 'm'];
+
+      async hash(event: RequestEvent) {
+        return event.getClientAddress();
+      }
+    }
+
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter<{ cost: number }>({
+      hashFunction,
+      plugins: [new OrderPlugin()]
+    });
+
+    expect(await limiter.check(event, { cost: 9.99 })).toEqual({
+      limited: false
+    });
+    expect(await limiter.isLimited(event, { cost: 3 })).toEqual(false);
+    expect((await limiter.peek(event, { cost: 3 }))[0].count).toEqual(2);
+
+    expect(await limiter.isLimited(event, { cost: 3 }, { cost: 3 })).toEqual(
+      false
+    );
+    expect((await limiter.peek(event, { cost: 3 }))[0].count).toEqual(5);
+  });
+
+  it('should not consume the other rates when rejected', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter<{ files: number }>({
+      hashFunction,
+      plugins: [new UploadPlugin()],
+      IP: { limit: 8, unit: 'm', algorithm: 'sliding-window-log' }
+    });
+
+    // The plugin cost is used for its own rate only
+    const upload = (files: number) =>
+      limiter.isLimited(event, { files }, { cost: files });
+
+    expect(await upload(5)).toEqual(false);
+    expect(await upload(5)).toEqual(true);
+    expect(await upload(3)).toEqual(false);
+
+    expect(
+      (await limiter.peek(event, { files: 0 })).map((s) => s.count)
+    ).toEqual([8, 8]);
+  });
+
+  it('should not consume the other rates when a single hit is rejected', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [
+        [5, 's'],
+        [2, 'm']
+      ]
+    });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await limiter.isLimited(event));
+    expect(results).toEqual([false, false, true, true]);
+
+    expect((await limiter.peek(event)).map((s) => s.count)).toEqual([2, 2]);
+  });
+
+  it('should refund and cancel the cost of a request', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({ hashFunction, IP: [10, 'm'] });
+
+    await limiter.check(event, undefined, { cost: 4 });
+    await limiter.refund(event);
+    expect((await limiter.peek(event))[0].count).toEqual(0);
+
+    const ticket = await limiter.reserve(event, undefined, { cost: 6 });
+    expect((await limiter.peek(event))[0].count).toEqual(6);
+    await ticket.cancel();
+    expect((await limiter.peek(event))[0].count).toEqual(0);
+  });
+
+  it('should return retryAfter for weighted requests', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: { limit: 10, unit: 'm', algorithm: 'token-bucket' }
+    });
+
+    expect(await limiter.check(event, undefined, { cost: 10 })).toEqual({
+      limited: false,
+      retryAfter: 0
+    });
+
+    const status = await limiter.check(event, undefined, { cost: 5 });
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThan(0);
+
+    // Five tokens are refilled after 30 seconds
+    const resetAt = limiter.rateLimitInfo(event)?.resetAt ?? 0;
+    expect(Math.round((resetAt - Date.now()) / 1000)).toEqual(30);
+  });
+
+  it('should count the cost with the Redis store', async () => {
+    const redis = new RedisMock();
+    await redis.flushall();
+
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      store: new RedisStore({
+        client: {
+          eval: (script, keys, args) =>
+            redis.eval(script, keys.length, ...keys, ...args)
+        },
+        prefix: 'weighted'
+      }),
+      IP: [60, 'm'],
+      IPUA: { limit: 100, unit: 'm', algorithm: 'sliding-window-counter' }
+    });
+
+    expect(await limiter.isLimited(event, undefined, { cost: 50 })).toEqual(
+      false
+    );
+    expect(await limiter.isLimited(event, undefined, { cost: 40 })).toEqual(
+      true
+    );
+    expect(await limiter.isLimited(event, undefined, { cost: 10 })).toEqual(
+      false
+    );
+
+    expect((await limiter.peek(event)).map((s) => s.count)).toEqual([60, 60]);
+  });
+
+  it('should require a weighted store and a valid cost', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [3, 'm'],
+      store: { add: () => 1, clear: () => {} }
+    });
+
+    expect(await limiter.isLimited(event, undefined, { cost: 1 })).toEqual(
+      false
+    );
+    await expect(limiter.check(event, undefined, { cost: 2 })).rejects.toThrow(
+      'weighted'
+    );
+
+    const weighted = new RateLimiter({ hashFunction, IP: [3, 'm'] });
+    await expect(weighted.check(event, undefined, { cost: 0 })).rejects.toThrow(
+      'cost'
+    );
+    await expect(
+      weighted.check(event, undefined, { cost: 1.5 })
+    ).rejects.toThrow('cost');
+  });
+});
+
+describe('Trusted proxy IP resolution', () => {
+  function proxyEvent(peer: string, headers: Record<string, string> = {}) {
+    return {
+      ...mockEvent(),
+      getClientAddress: () => peer,
+      request: new Request('https://test.com', {
+        headers: { 'User-Agent': 'Chrome', ...headers }
+      })
+    } as RequestEvent;
+  }
+
+  it('should parse IPv4 and IPv6 addresses', () => {
+    expect(parseIP('192.168.0.1')).toEqual([192, 168, 0, 1]);
+    expect(parseIP('::ffff:192.168.0.1')).toEqual([192, 168, 0, 1]);
+    expect(parseIP('[2001:db8::1]')).toEqual([
+      0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1
+    ]);
+    expect(parseIP('fe80::1%eth0')?.length).toEqual(16);
+
+    for (const invalid of ['', '1.2.3', '256.1.1.1', '1::2::3', 'unknown']) {
+      expect(parseIP(invalid)).toBeNull();
+    }
+  });
+
+  it('should match CIDR ranges', () => {
+    const matches = cidrMatcher(['10.0.0.0/8', '2001:db8::/32', '127.0.0.1']);
+
+    expect(matches('10.20.30.40')).toEqual(true);
+    expect(matches('::ffff:10.0.0.1')).toEqual(true);
+    expect(matches('2001:db8:1234::1')).toEqual(true);
+    expect(matches('127.0.0.1')).toEqual(true);
+    expect(matches('127.0.0.2')).toEqual(false);
+    expect(matches('11.0.0.1')).toEqual(false);
+
+    expect(() => cidrMatcher(['10.0.0.0/33'])).toThrow('CIDR');
+    expect(() => cidrMatcher(['10.0.0.0/'])).toThrow('CIDR');
+  });
+
+  it('should only honor headers from trusted proxies', () => {
+    const resolve = createIPResolver({ trustedProxies: ['10.0.0.0/8'] });
+
+    expect(
+      resolve(proxyEvent('1.2.3.4', { 'X-Forwarded-For': '5.6.7.8' }))
+    ).toEqual('1.2.3.4');
+
+    expect(
+      resolve(proxyEvent('10.0.0.1', { 'X-Forwarded-For': '5.6.7.8' }))
+    ).toEqual('5.6.7.8');
+
+    expect(resolve(proxyEvent('10.0.0.1'))).toEqual('10.0.0.1');
+  });
+
+  it('should walk the proxy chain', () => {
+    const resolve = createIPResolver({ trustedProxies: ['10.0.0.0/8'] });
+
+    // The spoofed address to the left is ignored
+    expect(
+      resolve(
+        proxyEvent('10.0.0.1', {
+          'X-Forwarded-For': '6.6.6.6, 5.6.7.8:1234, 10.0.0.2'
+        })
+      )
+    ).toEqual('5.6.7.8');
+
+    expect(
+      resolve(
+        proxyEvent('10.0.0.1', {
+          Forwarded:
+            'for=6.6.6.6, for="[2001:db8::1]:4711";proto=https, for=10.0.0.2'
+        })
+      )
+    ).toEqual('2001:db8::1');
+
+    // An obfuscated address stops at the last valid one
+    expect(
+      resolve(
+        proxyEvent('10.0.0.1', { Forwarded: 'for=_hidden, for=10.0.0.2' })
+      )
+    ).toEqual('10.0.0.2');
+  });
+
+  it('should use the headers in priority order', () => {
+    const resolve = createIPResolver({
+      trustedProxies: ['10.0.0.1'],
+      headers: ['cf-connecting-ip', 'X-Forwarded-For']
+    });
+
+    expect(
+      resolve(
+        proxyEvent('10.0.0.1', {
+          'X-Forwarded-For': '5.6.7.8',
+          'CF-Connecting-IP': '1.2.3.4'
+        })
+      )
+    ).toEqual('1.2.3.4');
+
+    expect(
+      resolve(
+        proxyEvent('10.0.0.1', {
+          'X-Forwarded-For': '5.6.7.8',
+          'CF-Connecting-IP': 'invalid'
+        })
+      )
+    ).toEqual('5.6.7.8');
+  });
+
+  it('should limit the resolved client address', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [
+        new ProxyIPRateLimiter([1, 'm'], { trustedProxies: ['10.0.0.0/8'] })
+      ]
+    });
+
+    const client = (ip: string) =>
+      proxyEvent('10.0.0.1', { 'X-Forwarded-For': ip });
+
+    expect(await limiter.isLimited(client('5.6.7.8'))).toEqual(false);
+    expect(await limiter.isLimited(client('5.6.7.9'))).toEqual(false);
+    expect(await limiter.isLimited(client('5.6.7.8'))).toEqual(true);
+  });
+});
+
+describe('IP subnet aggregation', () => {
+  function ipEvent(ip: string) {
+    const event = mockEvent() as RequestEvent;
+    event.getClientAddress = () => ip;
+    return event;
+  }
+
+  it('should canonicalize addresses', () => {
+    expect(normalizeIP('2001:0DB8:0000:0000:0000:0000:0000:0001')).toEqual(
+      '2001:db8::1'
+    );
+    expect(normalizeIP('2001:db8:0:1:0:0:0:1')).toEqual('2001:db8:0:1::1');
+    expect(normalizeIP('::ffff:192.168.0.1')).toEqual('192.168.0.1');
+    expect(normalizeIP('::')).toEqual('::');
+    expect(normalizeIP('not an ip')).toEqual('not an ip');
+  });
+
+  it('should aggregate addresses into subnets', () => {
+    const subnet = { ipv6: 56, ipv4: 24 };
+
+    expect(normalizeIP('2001:db8:1:ff12:abcd::1', subnet)).toEqual(
+      '2001:db8:1:ff00::/56'
+    );
+    expect(normalizeIP('192.168.0.123', subnet)).toEqual('192.168.0.0/24');
+    expect(normalizeIP('::ffff:192.168.0.5', subnet)).toEqual('192.168.0.0/24');
+    expect(normalizeIP('192.168.0.123', { ipv6: 64 })).toEqual('192.168.0.123');
+  });
+
+  it('should count an IPv6 subnet as one client', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [2, 'm'],
+      ipSubnet: { ipv6: 64 }
+    });
+
+    expect(await limiter.isLimited(ipEvent('2001:db8::1'))).toEqual(false);
+    expect(
+      await limiter.isLimited(ipEvent('2001:0db8:0:0:ffff:1234:5678:9abc'))
+    ).toEqual(false);
+    expect(await limiter.isLimited(ipEvent('2001:db8:0:0::2'))).toEqual(true);
+
+    expect(await limiter.isLimited(ipEvent('2001:db8:0:1::1'))).toEqual(false);
+  });
+
+  it('should throw for invalid prefix lengths', () => {
+    expect(
+      () => new RateLimiter({ IP: [2, 'm'], ipSubnet: { ipv6: 129 } })
+    ).toThrow('prefix');
+    expect(
+      () => new RateLimiter({ IPUA: [2, 'm'], ipSubnet: { ipv4: 24.5 } })
+    ).toThrow('prefix');
+  });
+});
+
+describe('Allow and deny lists', () => {
+  function listEvent(ip: string, headers: Record<string, string> = {}) {
+    return {
+      ...mockEvent(),
+      getClientAddress: () => ip,
+      request: new Request('https://test.com', {
+        headers: { 'User-Agent': 'Chrome', ...headers }
+      })
+    } as RequestEvent;
+  }
+
+  it('should bypass all rates for allowlisted clients', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [
+        new AllowListPlugin({
+          list: { ips: ['10.0.0.0/8'], headers: { 'x-api-key': ['KEY'] } }
+        })
+      ],
+      IP: [1, 'm']
+    });
+
+    for (let i = 0; i < 3; i++) {
+      expect(await limiter.isLimited(listEvent('10.1.2.3'))).toEqual(false);
+      expect(
+        await limiter.isLimited(listEvent('1.2.3.4', { 'X-Api-Key': 'KEY' }))
+      ).toEqual(false);
+    }
+
+    expect(await limiter.isLimited(listEvent('1.2.3.4'))).toEqual(false);
+    expect(await limiter.isLimited(listEvent('1.2.3.4'))).toEqual(true);
+  });
+
+  it('should limit denylisted clients', async () => {
+    const limiter = new RateLimiter<{ userId: string }>({
+      hashFunction,
+      plugins: [new DenyListPlugin({ list: { userIds: ['banned'] } })],
+      IP: [10, 'm']
+    });
+
+    const event = listEvent('1.2.3.4');
+
+    expect(await limiter.check(event, { userId: 'banned' })).toEqual({
+      limited: true,
+      reason: 'denylist'
+    });
+    expect(await limiter.isLimited(event, { userId: 'user' })).toEqual(false);
+  });
+
+  it('should tell denylisted clients when to retry', async () => {
+    const limiter = new RetryAfterRateLimiter<{ userId: string }>({
+      hashFunction,
+      plugins: [
+        new DenyListPlugin({ list: { userIds: ['banned'] } }),
+        new DenyListPlugin({
+          id: 'spammers',
+          list: { userIds: ['spammer'] },
+          retryAfter: '1d'
+        })
+      ],
+      IP: [10, 'm']
+    });
+
+    const event = listEvent('1.2.3.4');
+
+    const banned = await limiter.check(event, { userId: 'banned' });
+    assert(banned.limited);
+    expect(banned.reason).toEqual('denylist');
+    expect(banned.retryAfter).toEqual(3600);
+    expect(limiter.rateLimitInfo(event)).toMatchObject({
+      limit: 0,
+      remaining: 0,
+      window: 3600000
+    });
+
+    const spammer = await limiter.check(event, { userId: 'spammer' });
+    assert(spammer.limited);
+    expect(spammer.reason).toEqual('spammers');
+    expect(spammer.retryAfter).toBeGreaterThanOrEqual(86399);
+  });
+
+  it('should match user ids with a selector', async () => {
+    const limiter = new RateLimiter<{ user: { id: string } }>({
+      hashFunction,
+      plugins: [
+        new AllowListPlugin<{ user: { id: string } }>({
+          list: { userIds: ['admin'] },
+          userId: (extraData) => extraData.user.id
+        })
+      ],
+      IP: [1, 'm']
+    });
+
+    const event = listEvent('1.2.3.4');
+    const admin = { user: { id: 'admin' } };
+
+    expect(await limiter.isLimited(event, admin)).toEqual(false);
+    expect(await limiter.isLimited(event, admin)).toEqual(false);
+    expect(await limiter.isLimited(event, { user: { id: 'x' } })).toEqual(
+      false
+    );
+    expect(await limiter.isLimited(event, { user: { id: 'x' } })).toEqual(true);
+  });
+
+  it('should reload the list from its source', async () => {
+    let ips = ['1.2.3.4'];
+    let loads = 0;
+
+    const deny = new DenyListPlugin({
+      list: async () => {
+        loads++;
+        return { ips };
+      },
+      reloadInterval: 50
+    });
+
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [deny],
+      IP: [10, 'm']
+    });
+
+    expect(await limiter.isLimited(listEvent('1.2.3.4'))).toEqual(true);
+    expect(await limiter.isLimited(listEvent('5.6.7.8'))).toEqual(false);
+    expect(loads).toEqual(1);
+
+    ips = ['5.6.7.8'];
+    await delay(60);
+
+    expect(await limiter.isLimited(listEvent('5.6.7.8'))).toEqual(true);
+    expect(await limiter.isLimited(listEvent('1.2.3.4'))).toEqual(false);
+    expect(loads).toEqual(2);
+
+    ips = [];
+    await deny.reload();
+    expect(await limiter.isLimited(listEvent('5.6.7.8'))).toEqual(false);
+  });
+});
+
+describe('User and API key limiters', () => {
+  type Locals = { user?: { id: number; plan: string } };
+
+  function userEvent(locals: Locals, headers: Record<string, string> = {}) {
+    return {
+      ...mockEvent(),
+      locals,
+      request: new Request('https://test.com', {
+        headers: { 'User-Agent': 'Chrome', ...headers }
+      })
+    } as unknown as RequestEvent;
+  }
+
+  const user = (locals: App.Locals) => (locals as Locals).user?.id;
+
+  it('should limit users by their id', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [new UserRateLimiter({ rate: [1, 'm'], user })]
+    });
+
+    const event = userEvent({ user: { id: 1, plan: 'free' } });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+    expect(
+      await limiter.isLimited(userEvent({ user: { id: 2, plan: 'free' } }))
+    ).toEqual(false);
+  });
+
+  it('should fall back to the other limiters without a user', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [new UserRateLimiter({ rate: [10, 'm'], user })],
+      IP: [1, 'm']
+    });
+
+    expect(await limiter.isLimited(userEvent({}))).toEqual(false);
+    expect(await limiter.isLimited(userEvent({}))).toEqual(true);
+
+    // Only the user limiter and the IP limiter are left
+    const onlyUser = new RateLimiter({
+      hashFunction,
+      plugins: [new UserRateLimiter({ rate: [10, 'm'], user })]
+    });
+
+    expect(await onlyUser.check(userEvent({}))).toEqual({
+      limited: true,
+      reason: 0
+    });
+  });
+
+  it('should use the rates of the identity tier', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      plugins: [
+        new UserRateLimiter({
+          rate: [1, 'm'],
+          tiers: {
+            pro: [
+              [3, 'm'],
+              { limit: 1, unit: 's', algorithm: 'token-bucket', burst: 3 }
+            ]
+          },
+          tier: (event) => (event.locals as Locals).user?.plan,
+          user
+        })
+      ]
+    });
+
+    const pro = userEvent({ user: { id: 1, plan: 'pro' } });
+    const free = userEvent({ user: { id: 2, plan: 'free-trial' } });
+
+    expect(await limiter.isLimited(pro)).toEqual(false);
+    expect(await limiter.isLimited(pro)).toEqual(false);
+    expect(await limiter.isLimited(pro)).toEqual(false);
+    expect(await limiter.isLimited(pro)).toEqual(true);
+
+    // Unknown tiers use the default rate
+    expect(await limiter.isLimited(free)).toEqual(false);
+    expect(await limiter.isLimited(free)).toEqual(true);
+  });
+
+  it('should limit API keys from a bearer token or a header', async () => {
+    const bearer = new RateLimiter({
+      hashFunction,
+      plugins: [new ApiKeyRateLimiter({ rate: [1, 'm'] })],
+      IP: [10, 'm']
+    });
+
+    const key = (name: string, value: string) =>
+      userEvent({}, { [name]: value });
+
+    expect(await bearer.isLimited(key('Authorization', 'Bearer KEY1'))).toEqual(
+      false
+    );
+    expect(await bearer.isLimited(key('Authorization', 'bearer KEY1'))).toEqual(
+      true
+    );
+    expect(await bearer.isLimited(key('Authorization', 'Bearer KEY2'))).toEqual(
+      false
+    );
+
+    const header = new RateLimiter({
+      hashFunction,
+      plugins: [
+        new ApiKeyRateLimiter({
+          rate: [1, 'm'],
+          header: 'x-api-key',
+          tiers: { partner: [2, 'm'] },
+          tier: (_, apiKey) =>
+            apiKey.startsWith('partner-') ? 'partner' : null
+        })
+      ]
+    });
+
+    expect(await header.isLimited(key('X-Api-Key', 'KEY'))).toEqual(false);
+    expect(await header.isLimited(key('X-Api-Key', 'KEY'))).toEqual(true);
+    expect(await header.isLimited(key('X-Api-Key', 'partner-1'))).toEqual(
+      false
+    );
+    expect(await header.isLimited(key('X-Api-Key', 'partner-1'))).toEqual(
+      false
+    );
+    expect(await header.isLimited(key('X-Api-Key', 'partner-1'))).toEqual(true);
+  });
+});
+
+describe('Dynamic rates', () => {
+  class PlanPlugin implements RateLimiterPlugin<{ plan: 'free' | 'pro' }> {
+    readonly rate: Rate = [1, 'm'];
+
+    async hash(event: RequestEvent, extraData: { plan: 'free' | 'pro' }) {
+      return {
+        hash: event.getClientAddress(),
+        rate:
+          extraData.plan == 'pro'
+            ? ([3, 'h'] as Rate)
+            : ([[2, 's'], { limit: 2, unit: '10s' }] as Rate[])
+      };
+    }
+  }
+
+  it('should use the rates returned from the plugin', async () => {
+    const limiter = new RetryAfterRateLimiter<{ plan: 'free' | 'pro' }>({
+      hashFunction,
+      plugins: [new PlanPlugin()]
+    });
+
+    const event = mockEvent() as RequestEvent;
+
+    expect(await limiter.isLimited(event, { plan: 'pro' })).toEqual(false);
+    expect(await limiter.isLimited(event, { plan: 'pro' })).toEqual(false);
+    expect(await limiter.isLimited(event, { plan: 'pro' })).toEqual(false);
+
+    const status = await limiter.check(event, { plan: 'pro' });
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThan(3590);
+
+    // Another plan has its own counters
+    expect(await limiter.isLimited(event, { plan: 'free' })).toEqual(false);
+    expect(await limiter.isLimited(event, { plan: 'free' })).toEqual(false);
+    expect(await limiter.isLimited(event, { plan: 'free' })).toEqual(true);
+  });
+
+  it('should peek and reset the rates returned from the plugin', async () => {
+    const limiter = new RateLimiter<{ plan: 'free' | 'pro' }>({
+      hashFunction,
+      plugins: [new PlanPlugin()]
+    });
+
+    const event = mockEvent() as RequestEvent;
+    await limiter.isLimited(event, { plan: 'free' });
+
+    const status = await limiter.peek(event, { plan: 'free' });
+    expect(status.map((s) => [s.rate.ttl, s.count, s.remaining])).toEqual([
+      [1000, 1, 1],
+      [10000, 1, 1]
+    ]);
+
+    await limiter.reset(event, { plan: 'free' });
+    expect(
+      (await limiter.peek(event, { plan: 'free' })).map((s) => s.count)
+    ).toEqual([0, 0]);
+  });
+
+  it('should handle varying TTLs in the Redis store', async () => {
+    const redis = new RedisMock();
+    await redis.flushall();
+
+    const limiter = new RateLimiter<{ plan: 'free' | 'pro' }>({
+      hashFunction,
+      store: new RedisStore({
+        client: {
+          eval: (script, keys, args) =>
+            redis.eval(script, keys.length, ...keys, ...args)
+        },
+        prefix: 'dynamic'
+      }),
+      plugins: [new PlanPlugin()]
+    });
+
+    const event = mockEvent() as RequestEvent;
+
+    await limiter.isLimited(event, { plan: 'pro' });
+    await limiter.isLimited(event, { plan: 'free' });
+
+    const ttls = await Promise.all(
+      (await redis.keys('dynamic:*')).sort().map((key) => redis.pttl(key))
+    );
+
+    expect(ttls.map((ttl) => Math.ceil(ttl / 1000))).toEqual([1, 10, 3600]);
+  });
+});
+
+describe('Rate durations', () => {
+  it('should keep the rate units in the duration type', () => {
+    // A literal absorbed by the duration template wouldn't be extracted
+    expectTypeOf<Extract<RateDuration, RateUnit>>().toEqualTypeOf<RateUnit>();
+    expectTypeOf<Extract<RateDuration, '45m'>>().toEqualTypeOf<'45m'>();
+    expectTypeOf<'1h30m'>().toMatchTypeOf<RateDuration>();
+    expectTypeOf<'3x'>().not.toMatchTypeOf<RateDuration>();
+  });
+
+  it('should parse duration strings and numbers', () => {
+    expect(TTLTime('45s')).toEqual(45000);
+    expect(TTLTime('90s')).toEqual(90000);
+    expect(TTLTime('3m')).toEqual(180000);
+    expect(TTLTime('1w')).toEqual(7 * 24 * 60 * 60000);
+    expect(TTLTime('1h30m')).toEqual(90 * 60000);
+    expect(TTLTime('1.5h')).toEqual(90 * 60000);
+    expect(TTLTime('2s500ms')).toEqual(2500);
+    expect(TTLTime(1500)).toEqual(1500);
+  });
+
+  it('should throw for invalid durations', () => {
+    for (const invalid of ['', 'x', '3x', '1h 30m', 'm30', '1.h', 0, -5, 1.5]) {
+      expect(() => TTLTime(invalid as number)).toThrow('TTLTime');
+    }
+
+    expect(
+      // @ts-expect-error Invalid unit
+      () => new RateLimiter({ IP: [10, '3x'] })
+    ).toThrow('3x');
+  });
+
+  it('should limit with arbitrary durations', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [1, 150],
+      IPUA: { limit: 20, unit: '7d' }
+    });
+
+    const event = mockEvent() as RequestEvent;
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await delay(160);
+    expect(await limiter.isLimited(event)).toEqual(false);
+
+    const [, week] = await limiter.peek(event);
+    expect(week.rate.ttl).toEqual(7 * 24 * 60 * 60000);
+    expect(week.count).toEqual(2);
+  });
+});
+
+describe('Calendar windows', () => {
+  const windowEnd = (rate: Rate, date: string) =>
+    new Date(rateWindowEnd(toTTLRate(rate), Date.parse(date))).toISOString();
+
+  it('should end at the next UTC boundary', () => {
+    const now = '2024-03-15T13:45:30.500Z';
+
+    expect(windowEnd({ limit: 1, calendar: 'minute' }, now)).toEqual(
+      '2024-03-15T13:46:00.000Z'
+    );
+    expect(windowEnd({ limit: 1, calendar: 'hour' }, now)).toEqual(
+      '2024-03-15T14:00:00.000Z'
+    );
+    expect(windowEnd({ limit: 1, calendar: 'day' }, now)).toEqual(
+      '2024-03-16T00:00:00.000Z'
+    );
+    expect(windowEnd({ limit: 1, calendar: 'month' }, now)).toEqual(
+      '2024-04-01T00:00:00.000Z'
+    );
+    expect(
+      windowEnd({ limit: 1, calendar: 'month' }, '2024-12-31T23:59:59.999Z')
+    ).toEqual('2025-01-01T00:00:00.000Z');
+  });
+
+  it('should end at the next boundary in a time zone', () => {
+    const day: Rate = {
+      limit: 1,
+      calendar: 'day',
+      timeZone: 'America/New_York'
+    };
+
+    // EST, UTC-5
+    expect(windowEnd(day, '2024-01-15T03:00:00Z')).toEqual(
+      '2024-01-15T05:00:00.000Z'
+    );
+    expect(windowEnd(day, '2024-01-15T06:00:00Z')).toEqual(
+      '2024-01-16T05:00:00.000Z'
+    );
+    // Spring forward, the day is 23 hours
+    expect(windowEnd(day, '2024-03-10T06:00:00Z')).toEqual(
+      '2024-03-11T04:00:00.000Z'
+    );
+    // Fall back, the day is 25 hours
+    expect(windowEnd(day, '2024-11-03T05:00:00Z')).toEqual(
+      '2024-11-04T05:00:00.000Z'
+    );
+
+    expect(
+      windowEnd(
+        { limit: 1, calendar: 'month', timeZone: 'Asia/Kolkata' },
+        '2024-02-29T20:00:00Z'
+      )
+    ).toEqual('2024-03-31T18:30:00.000Z');
+
+    expect(
+      windowEnd(
+        { limit: 1, calendar: 'hour', timeZone: 'Asia/Kolkata' },
+        '2024-02-29T20:00:00Z'
+      )
+    ).toEqual('2024-02-29T20:30:00.000Z');
+  });
+
+  it('should throw for an invalid window or time zone', () => {
+    expect(
+      () =>
+        new RateLimiter({
+          IP: { limit: 1, calendar: 'day', timeZone: 'Mars/Olympus' }
+        })
+    ).toThrow('Invalid time zone: Mars/Olympus');
+
+    expect(
+      () =>
+        new RateLimiter({
+          // @ts-expect-error Invalid window
+          IP: { limit: 1, calendar: 'year' }
+        })
+    ).toThrow('Invalid calendar window: year');
+  });
+
+  it('should report the time until the boundary as retryAfter', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: { limit: 1, calendar: 'day' }
+    });
+
+    expect(await limiter.check(event)).toEqual({
+      limited: false,
+      retryAfter: 0
+    });
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+
+    const midnight = new Date();
+    midnight.setUTCHours(24, 0, 0, 0);
+    const seconds = (midnight.getTime() - Date.now()) / 1000;
+
+    expect(Math.abs(status.retryAfter - seconds)).toBeLessThanOrEqual(2);
+    expect(limiter.rateLimitInfo(event)?.resetAt).toEqual(midnight.getTime());
+  });
+});
+
+describe('Combined limiters', () => {
+  it('should limit if any limiter limits with "all"', async () => {
+    const event = mockEvent() as RequestEvent;
+    const ip = new RateLimiter({ hashFunction, IP: [1, 's'] });
+    const ipua = new RateLimiter({ hashFunction, IPUA: [3, 's'] });
+    const limiter = RateLimiter.all([ip, ipua]);
+
+    expect(await limiter.check(event)).toEqual({ limited: false });
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.reason).toEqual('IP');
+    expect(status.triggered).toEqual([
+      { index: 0, limiter: ip, limited: true, reason: 'IP' }
+    ]);
+
+    await limiter.check(event);
+    const both = await limiter.check(event);
+    assert(both.limited);
+    expect(both.triggered.map((t) => t.reason)).toEqual(['IP', 'IPUA']);
+  });
+
+  it('should only limit if all limiters limit with "any"', async () => {
+    const event = mockEvent() as RequestEvent;
+    const ip = new RateLimiter({ hashFunction, IP: [1, 's'] });
+    const ipua = new RateLimiter({ hashFunction, IPUA: [2, 's'] });
+    const limiter = RateLimiter.any([ip, ipua]);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    // The second limiter isn't evaluated when the first one allows the request
+    expect((await ipua.peek(event))[0].count).toEqual(0);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect((await ipua.peek(event))[0].count).toEqual(2);
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.triggered.map((t) => [t.index, t.reason])).toEqual([
+      [0, 'IP'],
+      [1, 'IPUA']
+    ]);
+  });
+
+  it('should use the first matching limiter with "first"', async () => {
+    const event = mockEvent() as RequestEvent;
+    const anonymous = new RateLimiter({
+      hashFunction,
+      plugins: [new ShortCircuitPlugin(null, [1, 's'])]
+    });
+    const rejected = new RateLimiter({
+      hashFunction,
+      plugins: [new ShortCircuitPlugin(false, [1, 's'])]
+    });
+    const ip = new RateLimiter({ hashFunction, IP: [1, 's'] });
+
+    const limiter = RateLimiter.first([anonymous, ip]);
+    expect(await limiter.isLimited(event)).toEqual(false);
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.triggered).toEqual([
+      { index: 1, limiter: ip, limited: true, reason: 'IP' }
+    ]);
+
+    const ip2 = new RateLimiter({ hashFunction, IP: [1, 's'] });
+    const limiter2 = RateLimiter.first([rejected, ip2]);
+    const status2 = await limiter2.check(event);
+    assert(status2.limited);
+    expect(status2.triggered.map((t) => t.limiter)).toEqual([rejected]);
+    expect((await ip2.peek(event))[0].count).toEqual(0);
+
+    // Without any match, the last limiter decides
+    const limiter3 = RateLimiter.first([anonymous, anonymous]);
+    const status3 = await limiter3.check(event);
+    assert(status3.limited);
+    expect(status3.triggered.map((t) => t.index)).toEqual([1]);
+  });
+
+  it('should combine nested limiters and retryAfter', async () => {
+    const event = mockEvent() as RequestEvent;
+    const short = new RetryAfterRateLimiter({ hashFunction, IP: [1, '5s'] });
+    const long = new RetryAfterRateLimiter({ hashFunction, IPUA: [1, 'm'] });
+    const anonymous = new RateLimiter({
+      hashFunction,
+      plugins: [new ShortCircuitPlugin(null, [1, 's'])]
+    });
+
+    const limiter = RateLimiter.all([
+      RateLimiter.first([anonymous, short]),
+      long
+    ]);
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThan(55);
+    expect(status.triggered.map((t) => t.reason)).toEqual(['IP', 'IPUA']);
+    expect(status.triggered[0].triggered?.[0].limiter).toBe(short);
+
+    const any = RateLimiter.any([short, long]);
+    const anyStatus = await any.check(event);
+    assert(anyStatus.limited);
+    expect(anyStatus.retryAfter).toBeLessThanOrEqual(5);
+
+    expect(() => RateLimiter.all([])).toThrow('No limiters');
+  });
+});
+
+describe('Verbose check', () => {
+  class NamedPlugin implements RateLimiterPlugin {
+    readonly id = 'search';
+    readonly rate: Rate = [1, 'm'];
+
+    hash() {
+      return 'search';
+    }
+  }
+
+  it('should list the status of every evaluated rate', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [
+        [2, 's'],
+        [10, 'm']
+      ],
+      plugins: [new ShortCircuitPlugin(null, [1, '100ms']), new NamedPlugin()]
+    });
+
+    const status = await limiter.check(event, undefined, { verbose: true });
+    expect(status.limited).toEqual(false);
+    expect(
+      status.rates?.map((r) => [r.plugin, r.rate.ttl, r.result, r.remaining])
+    ).toEqual([
+      ['ShortCircuitPlugin', 100, 'skipped', undefined],
+      ['IP', 1000, 'counted', 1],
+      ['search', 60000, 'counted', 0],
+      ['IP', 60000, 'counted', 9]
+    ]);
+
+    const limited = await limiter.check(event, undefined, { verbose: true });
+    assert(limited.limited);
+    expect(limited.reason).toEqual('search');
+    expect(limited.rates?.at(-1)).toMatchObject({
+      plugin: 'search',
+      result: 'limited',
+      count: 2,
+      limit: 1,
+      remaining: 0
+    });
+
+    expect(await limiter.check(event)).not.toHaveProperty('rates');
+  });
+
+  it('should report bypassed and rejected plugins', async () => {
+    const event = mockEvent() as RequestEvent;
+    const allowed = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [1, 's'],
+      plugins: [new ShortCircuitPlugin(true, [1, '100ms'])]
+    });
+
+    expect(
+      await allowed.check(event, undefined, { verbose: true })
+    ).toMatchObject({
+      limited: false,
+      rates: [{ plugin: 'ShortCircuitPlugin', result: 'bypassed' }]
+    });
+
+    const rejected = new RateLimiter({
+      hashFunction,
+      IP: [1, 's'],
+      plugins: [new ShortCircuitPlugin(false, [1, '100ms'])]
+    });
+
+    expect(
+      await rejected.check(event, undefined, { verbose: true })
+    ).toMatchObject({
+      limited: true,
+      reason: 0,
+      rates: [{ plugin: 'ShortCircuitPlugin', result: 'rejected' }]
+    });
+  });
+});
+
+describe('Hooks', () => {
+  it('should call the hooks with the check results', async () => {
+    const event = mockEvent() as RequestEvent;
+    const calls: [string, unknown][] = [];
+    const log =
+      (name: string) =>
+      (payload: object): void => {
+        calls.push([name, { ...payload, event: undefined }]);
+      };
+
+    const limiter = new RateLimiter<{ vip: boolean }>({
+      hashFunction,
+      IP: [1, 's'],
+      plugins: [
+        {
+          rate: [1, '100ms'],
+          hash: (_, extra: { vip: boolean }) => (extra.vip ? true : null)
+        }
+      ],
+      hooks: {
+        onAllowed: log('allowed'),
+        onLimited: log('limited'),
+        onBypass: log('bypass')
+      }
+    });
+
+    await limiter.isLimited(event, { vip: false });
+    await limiter.isLimited(event, { vip: false });
+    await limiter.isLimited(event, { vip: true });
+
+    expect(calls.map(([name]) => name)).toEqual([
+      'allowed',
+      'limited',
+      'bypass',
+      'allowed'
+    ]);
+    expect(calls[1][1]).toMatchObject({
+      reason: 'IP',
+      cost: 1,
+      trigger: { plugin: 'IP', result: 'limited', count: 2 }
+    });
+    expect(calls[2][1]).toMatchObject({ plugin: 'Object' });
+  });
+
+  it('should report store errors and preflight cookies', async () => {
+    const event = mockEvent() as RequestEvent;
+    const store: RateLimiterStore = {
+      add: async () => {
+        throw new Error('Connection lost');
+      },
+      clear: async () => {}
+    };
+
+    const errors: unknown[] = [];
+    const preflights: string[] = [];
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const limiter = new RateLimiter({
+      store,
+      cookie: {
+        name: 'limiterid',
+        secret: 'secret',
+        rate: [1, 's'],
+        preflight: false
+      },
+      hooks: [
+        {
+          onStoreError: ({ operation, error }) => {
+            errors.push([operation, (error as Error).message]);
+          },
+          onPreflightIssued: ({ cookie }) => {
+            preflights.push(cookie);
+          }
+        },
+        {
+          onStoreError: () => {
+            throw new Error('Hook error');
+          }
+        }
+      ]
+    });
+
+    await expect(limiter.isLimited(event)).rejects.toThrow('Connection lost');
+    expect(errors).toEqual([['add', 'Connection lost']]);
+    expect(preflights).toEqual(['limiterid']);
+    expect(warn).toHaveBeenCalledOnce();
+
+    warn.mockRestore();
+  });
+
+  it('should record metrics with a meter', async () => {
+    const event = {
+      ...mockEvent(),
+      route: { id: '/api/search' }
+    } as RequestEvent;
+
+    const recorded: [string, number, unknown][] = [];
+    const meter: MeterLike = {
+      createCounter: (name) => ({
+        add: (value, attributes) => recorded.push([name, value, attributes])
+      }),
+      createHistogram: (name) => ({
+        record: (value, attributes) => recorded.push([name, value, attributes])
+      })
+    };
+
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [1, 's'],
+      hooks: createTelemetryHooks(meter, { name: 'search' })
+    });
+
+    await limiter.isLimited(event);
+    await limiter.isLimited(event);
+
+    const counters = recorded.filter(
+      ([name]) => name != 'rate_limiter.check.duration'
+    );
+    expect(counters).toEqual([
+      [
+        'rate_limiter.checks',
+        1,
+        {
+          'rate_limiter.name': 'search',
+          'http.route': '/api/search',
+          'rate_limiter.result': 'allowed'
+        }
+      ],
+      [
+        'rate_limiter.checks',
+        1,
+        {
+          'rate_limiter.name': 'search',
+          'http.route': '/api/search',
+          'rate_limiter.result': 'limited'
+        }
+      ],
+      [
+        'rate_limiter.limited',
+        1,
+        {
+          'rate_limiter.name': 'search',
+          'http.route': '/api/search',
+          'rate_limiter.reason': 'IP'
+        }
+      ]
+    ]);
+
+    expect(
+      recorded.filter(([name]) => name == 'rate_limiter.check.duration')
+    ).toHaveLength(2);
+  });
+});
+
+describe('Store failures', () => {
+  const failingStore: RateLimiterStore = {
+    add: async () => {
+      throw new Error('Connection lost');
+    },
+    clear: async () => {}
+  };
+
+  it('should allow or limit requests by the failure policy', async () => {
+    const event = mockEvent() as RequestEvent;
+    const errors: string[] = [];
+
+    const open = new RateLimiter({
+      store: failingStore,
+      IP: [1, 's'],
+      storeFailure: 'open',
+      hooks: {
+        onStoreError: ({ error }) => {
+          errors.push((error as Error).message);
+        }
+      }
+    });
+
+    expect(await open.isLimited(event)).toEqual(false);
+    expect(await open.isLimited(event)).toEqual(false);
+    expect(errors).toEqual(['Connection lost', 'Connection lost']);
+
+    const closed = new RateLimiter({
+      store: failingStore,
+      IP: [1, 's'],
+      storeFailure: 'closed',
+      hooks: { onStoreError: () => {} }
+    });
+
+    expect(await closed.check(event)).toEqual({ limited: true, reason: 'IP' });
+  });
+
+  it('should time out store operations', async () => {
+    const event = mockEvent() as RequestEvent;
+    const errors: string[] = [];
+
+    const limiter = new RateLimiter({
+      store: {
+        add: () => new Promise<number>(() => {}),
+        clear: async () => {}
+      },
+      IP: [1, 's'],
+      storeFailure: 'open',
+      storeTimeout: 50,
+      hooks: {
+        onStoreError: ({ error }) => {
+          errors.push((error as Error).message);
+        }
+      }
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(errors).toEqual(['Store operation timed out after 50 ms']);
+  });
+
+  it('should handle a failing prepare like the other operations', async () => {
+    const event = mockEvent() as RequestEvent;
+    const operations: string[] = [];
+    const store: RateLimiterStore = {
+      ...failingStore,
+      weighted: true,
+      prepare: () => {
+        throw new Error('Binding missing');
+      }
+    };
+
+    const open = new RateLimiter({
+      store,
+      IP: [1, 's'],
+      storeFailure: 'open',
+      hooks: {
+        onStoreError: ({ operation }) => {
+          operations.push(operation);
+        }
+      }
+    });
+
+    expect(await open.isLimited(event)).toEqual(false);
+    expect(operations).toEqual(['prepare', 'add']);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fallback = new RateLimiter({
+      store,
+      fallbackStore: new TTLStore(60000),
+      IP: [1, 'm']
+    });
+
+    expect(await fallback.isLimited(event)).toEqual(false);
+    expect(await fallback.isLimited(event)).toEqual(true);
+    warn.mockRestore();
+
+    const unguarded = new RateLimiter({
+      store,
+      IP: [1, 's'],
+      hooks: { onStoreError: () => {} }
+    });
+    await expect(unguarded.isLimited(event)).rejects.toThrow('Binding missing');
+  });
+
+  it('should use the fallback store when the store fails', async () => {
+    const event = mockEvent() as RequestEvent;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const limiter = new RateLimiter({
+      store: { ...failingStore, weighted: true },
+      fallbackStore: new TTLStore(60000),
+      IP: [1, 'm']
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    warn.mockRestore();
+
+    expect(
+      () =>
+        new RateLimiter({
+          store: failingStore,
+          fallbackStore: new TTLStore(60000),
+          IP: { limit: 1, unit: 'm', algorithm: 'token-bucket' }
+        })
+    ).toThrow('token-bucket');
+  });
+});
+
+describe('Ban policy', () => {
+  it('should ban repeated violations for an escalating duration', async () => {
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [1, '100ms'],
+      ban: { after: 2, within: 'm', durations: [300, '1m'] }
+    });
+
+    expect((await limiter.check(event)).limited).toEqual(false);
+    expect((await limiter.check(event)).limited).toEqual(true);
+
+    // The second violation bans the client
+    expect((await limiter.check(event)).limited).toEqual(true);
+    expect(limiter.rateLimitInfo(event)?.resetAt).toBeGreaterThan(
+      Date.now() + 200
+    );
+
+    await delay(150);
+    expect((await limiter.check(event)).limited).toEqual(true);
+
+    await delay(200);
+    expect((await limiter.check(event)).limited).toEqual(false);
+    expect((await limiter.check(event)).limited).toEqual(true);
+
+    const status = await limiter.check(event);
+    assert(status.limited);
+    expect(status.retryAfter).toBeGreaterThanOrEqual(59);
+
+    await limiter.reset(event);
+    expect((await limiter.check(event)).limited).toEqual(false);
+  });
+
+  it('should require a store with block', () => {
+    expect(
+      () =>
+        new RateLimiter({
+          store: { add: async () => 1, clear: async () => {} },
+          IP: [1, 's'],
+          ban: { after: 3, within: 'm', durations: ['h'] }
+        })
+    ).toThrow('does not support ban');
+
+    expect(
+      () =>
+        new RateLimiter({
+          IP: [1, 's'],
+          ban: { after: 0, within: 'm', durations: ['h'] }
+        })
+    ).toThrow('Invalid ban option');
+  });
+});
+
+describe('Cloudflare stores', () => {
+  function platformEvent(env: Record<string, unknown>) {
+    return { ...mockEvent(), platform: { env } } as RequestEvent;
+  }
+
+  it('should count with a Durable Object from platform.env', async () => {
+    const namespace = new MemoryDurableObjectNamespace();
+    const event = platformEvent({ RATE_LIMITER: namespace });
+
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [5, 'm'],
+      IPUA: { limit: 10, unit: 'm', algorithm: 'sliding-window-log' },
+      store: new DurableObjectStore({
+        namespace: 'RATE_LIMITER',
+        prefix: 'login'
+      })
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, () => limiter.isLimited(event))
+    );
+    expect(results.filter((limited) => !limited)).toHaveLength(5);
+
+    const [ip, ipua] = await limiter.peek(event);
+    expect(ip.count).toEqual(5);
+    expect(ipua.count).toEqual(5);
+
+    await limiter.reset(event);
+    expect(await limiter.isLimited(event)).toEqual(false);
+
+    await limiter.block(event, '1m');
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await limiter.clear();
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should spread the hashes over the Durable Object shards', async () => {
+    const namespace = new MemoryDurableObjectNamespace();
+    const idFromName = vi.spyOn(namespace, 'idFromName');
+    const store = new DurableObjectStore({
+      namespace,
+      prefix: 'login',
+      shards: 4
+    });
+
+    for (let i = 0; i < 20; i++) await store.add('hash' + i, 60000);
+    const names = new Set(idFromName.mock.results.map((r) => r.value));
+    expect(names.size).toBeGreaterThan(1);
+    expect([...names].every((name) => /^login:[0-3]$/.test(name))).toBe(true);
+
+    idFromName.mockClear();
+    expect(await store.add('hash0', 60000)).toMatchObject({ count: 2 });
+    await store.add('hash0', 60000);
+    expect(new Set(idFromName.mock.results.map((r) => r.value)).size).toBe(1);
+
+    idFromName.mockClear();
+    await store.clear();
+    expect(idFromName).toHaveBeenCalledTimes(4);
+    for (let i = 0; i < 20; i++) {
+      expect(await store.get('hash' + i, 60000)).toMatchObject({ count: 0 });
+    }
+
+    expect(
+      () => new DurableObjectStore({ namespace, prefix: 'login', shards: 0 })
+    ).toThrow('Invalid number of shards');
+  });
+
+  it('should remove expired entries in pages with the alarm', async () => {
+    const storage = new Map<string, unknown>();
+    const list = vi.fn(
+      async (options: { startAfter?: string; limit?: number } = {}) => {
+        const keys = [...storage.keys()]
+          .sort()
+          .filter((key) => !options.startAfter || key > options.startAfter)
+          .slice(0, options.limit);
+        return new Map(keys.map((key) => [key, storage.get(key)]));
+      }
+    );
+    const object = new RateLimiterDurableObject({
+      storage: {
+        get: async <T>(key: string) => storage.get(key) as T,
+        put: async (key, value) => void storage.set(key, value),
+        delete: async (keys) =>
+          keys.filter((key) => storage.delete(key)).length,
+        deleteAll: async () => storage.clear(),
+        list: list as DurableObjectStorageLike['list']
+      }
+    });
+
+    const now = Date.now();
+    for (let i = 0; i < 300; i++) {
+      storage.set('block:' + i, i % 2 ? now - 1 : now + 60000);
+    }
+    await object.alarm();
+
+    expect(storage.size).toEqual(150);
+    expect(list).toHaveBeenCalledTimes(3);
+    for (const [options] of list.mock.calls) {
+      expect(options?.limit).toEqual(128);
+    }
+  });
+
+  it('should count with KV', async () => {
+    const kv = new MemoryKVNamespace();
+    const event = platformEvent({});
+
+    const limiter = new RetryAfterRateLimiter({
+      hashFunction,
+      IP: [2, 's'],
+      store: new KVStore({ namespace: kv, prefix: 'search' })
+    });
+
+    expect((await limiter.check(event)).limited).toEqual(false);
+    expect((await limiter.check(event)).limited).toEqual(false);
+    expect((await limiter.check(event)).limited).toEqual(true);
+
+    await delay(1100);
+    expect((await limiter.check(event)).limited).toEqual(false);
+
+    await kv.put('other:key', '1');
+    await limiter.clear();
+    expect((await kv.list()).keys).toEqual([{ name: 'other:key' }]);
+  }, 3000);
+
+  it('should only clear the KV keys with its own prefix', async () => {
+    const kv = new MemoryKVNamespace();
+    const login = new KVStore({ namespace: kv, prefix: 'login' });
+    const nested = new KVStore({ namespace: kv, prefix: 'login:reset' });
+
+    await login.add('a:b', 60000);
+    await login.block('c', 60000);
+    await nested.add('a', 60000);
+    await login.clear();
+
+    expect((await kv.list()).keys).toEqual([{ name: 'login:reset:a' }]);
+  });
+
+  it('should throw if the binding is missing', async () => {
+    const limiter = new RateLimiter({
+      hashFunction,
+      IP: [2, 's'],
+      store: new KVStore({ namespace: 'LIMITS', prefix: 'search' })
+    });
+
+    await expect(limiter.isLimited(platformEvent({}))).rejects.toThrow(
+      'Binding "LIMITS" not found'
+    );
+    await expect(limiter.reset('1.2.3.4')).rejects.toThrow(
+      'Binding "LIMITS" is not available'
+    );
+  });
+});
+
+describe('SQL store', () => {
+  async function sqliteExecutor() {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    const executor: SqlExecutor = {
+      query: async (sql, params) =>
+        db
+          .exec(sql, params as SqlValue[])
+          .flatMap(({ columns, values }) =>
+            values.map((row) =>
+              Object.fromEntries(columns.map((column, i) => [column, row[i]]))
+            )
+          )
+    };
+    return { db, executor };
+  }
+
+  it('should limit requests with SQLite', async () => {
+    const { executor } = await sqliteExecutor();
+    const store = new SqlStore({
+      executor,
+      dialect: 'sqlite',
+      prefix: 'login'
+    });
+    await store.migrate();
+
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({
+      hashFunction,
+      store,
+      IP: [2, '250ms']
+    });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(false);
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    const [status] = await limiter.peek(event);
+    expect(status.count).toEqual(2);
+    expect(status.resetAt).toBeLessThanOrEqual(Date.now() + 250);
+
+    await delay(260);
+    expect(await limiter.isLimited(event)).toEqual(false);
+
+    await limiter.block(event, '1m');
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await limiter.reset(event);
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should count weighted requests like the in-memory store', async () => {
+    const { executor } = await sqliteExecutor();
+    const store = new SqlStore({ executor, dialect: 'sqlite', prefix: 'test' });
+    await store.migrate();
+
+    const rate = { limit: 5, ttl: 60000, algorithm: 'fixed-window' } as const;
+    const memory = new TTLStore(rate.ttl);
+    const counts: number[] = [];
+    const expected: number[] = [];
+
+    for (const cost of [2, 2, 3, -1, 3, 1]) {
+      counts.push((await store.add('a', rate.ttl, rate, cost)).count);
+      expected.push((await memory.add('a', rate.ttl, rate, cost)).count);
+    }
+    expect(counts).toEqual(expected);
+    expect(counts).toEqual([2, 4, 7, 3, 6, 4]);
+  });
+
+  it('should only clear the rows with its own prefix', async () => {
+    const { db, executor } = await sqliteExecutor();
+    const login = new SqlStore({
+      executor,
+      dialect: 'sqlite',
+      prefix: 'login'
+    });
+    const nested = new SqlStore({
+      executor,
+      dialect: 'sqlite',
+      prefix: 'login:reset'
+    });
+    const other = new SqlStore({
+      executor,
+      dialect: 'sqlite',
+      prefix: 'other'
+    });
+    await login.migrate();
+
+    await login.add('a:b', 60000);
+    await nested.add('a', 60000);
+    await other.add('a', 60000);
+    await login.clear();
+
+    expect(
+      db.exec('SELECT hash FROM rate_limits ORDER BY hash')[0].values
+    ).toEqual([['login:reset:a'], ['other:a']]);
+  });
+
+  it('should remove expired rows', async () => {
+    const { db, executor } = await sqliteExecutor();
+    const store = new SqlStore({
+      executor,
+      dialect: 'sqlite',
+      prefix: 'test',
+      cleanupInterval: 50
+    });
+    await store.migrate();
+
+    await store.add('a', 20);
+    await store.add('b', 60000);
+    await store.block('c', 60000);
+
+    await delay(60);
+    await store.add('d', 60000);
+    await delay(10);
+
+    expect(
+      db.exec('SELECT hash FROM rate_limits ORDER BY hash')[0].values
+    ).toEqual([['test:b'], ['test:c'], ['test:d']]);
+  });
+
+  it('should use numbered parameters for Postgres', async () => {
+    const queries: string[] = [];
+    const store = new SqlStore({
+      executor: {
+        query: async (sql) => {
+          queries.push(sql);
+          return [{ attempted: '1', reset_at: '1000' }];
+        }
+      },
+      dialect: 'postgres',
+      prefix: 'test',
+      table: 'limits.rate_limits'
+    });
+
+    expect(await store.add('a', 60000)).toEqual({ count: 1, resetAt: 1000 });
+    expect(queries[0]).toContain('GREATEST(0, $2::bigint)');
+    expect(queries[0]).not.toContain('?');
+
+    expect(sqlStoreSchema('postgres', 'limits.rate_limits')[0]).toContain(
+      'reset_at BIGINT NOT NULL'
+    );
+    expect(
+      () =>
+        new SqlStore({
+          executor: { query: async () => [] },
+          dialect: 'postgres',
+          prefix: 'test',
+          table: 'limits; DROP TABLE users'
+        })
+    ).toThrow('Invalid table name');
+  });
+
+  it('should cast large numbers to bigint for Postgres', async () => {
+    const queries: [string, unknown[]][] = [];
+    const store = new SqlStore({
+      executor: {
+        query: async (sql, params) => {
+          queries.push([sql, params]);
+          return [{ attempted: '1', reset_at: '1000' }];
+        }
+      },
+      dialect: 'postgres',
+      prefix: 'test'
+    });
+
+    await store.add('a', 60000, {
+      limit: Number.MAX_SAFE_INTEGER,
+      ttl: 60000,
+      algorithm: 'fixed-window'
+    });
+    await store.block('a', 60000);
+    await store.clear();
+
+    const [add, params] = queries[0];
+    expect(params[2]).toBe(Number.MAX_SAFE_INTEGER);
+    expect(add).toContain('VALUES ($1::text,');
+    expect(add).toContain('$3::bigint < 0');
+    expect(add).toContain('<= $4::bigint');
+    expect(add).toContain('$5::bigint');
+    expect(queries[1][0]).toContain('VALUES ($1::text, 0, 0, 0, $2::bigint)');
+    expect(queries[2][0]).toContain('substr(hash, 1, $1::integer) = $2::text');
+  });
+});
+
+describe('Tiered store', () => {
+  it('should count locally until the sync threshold', async () => {
+    const shared = new TTLStore(60000);
+    const add = vi.spyOn(shared, 'add');
+    const store = new TieredStore({ store: shared, syncThreshold: 0.5 });
+    const event = mockEvent() as RequestEvent;
+
+    const limiter = new RateLimiter({ hashFunction, store, IP: [10, 'm'] });
+
+    const results: boolean[] = [];
+    for (let i = 0; i < 12; i++) results.push(await limiter.isLimited(event));
+
+    expect(results.filter((limited) => !limited)).toHaveLength(10);
+    expect(results.slice(10)).toEqual([true, true]);
+
+    // First hit, then one batch and a shared count for every hit above 5
+    expect(add.mock.calls.length).toBeLessThan(12);
+    const direct = new RateLimiter({
+      hashFunction,
+      store: shared,
+      IP: [10, 'm']
+    });
+    expect((await direct.peek(event))[0].count).toEqual(10);
+  });
+
+  it('should send the local hits after the flush interval', async () => {
+    const shared = new TTLStore(60000);
+    const store = new TieredStore({ store: shared, flushInterval: 50 });
+    const rate = { limit: 100, ttl: 60000, algorithm: 'fixed-window' } as const;
+
+    for (let i = 0; i < 4; i++) await store.add('a', rate.ttl, rate);
+    expect((await shared.get('a', rate.ttl)).count).toEqual(1);
+
+    await delay(70);
+    expect((await shared.get('a', rate.ttl)).count).toEqual(4);
+    expect((await store.get!('a', rate.ttl)).count).toEqual(4);
+  });
+
+  it('should allow at most (N - 1) * syncThreshold * limit extra requests', async () => {
+    const shared = new TTLStore(60000);
+    const instances = [1, 2, 3].map(
+      () =>
+        new RateLimiter({
+          hashFunction,
+          IP: [10, 'm'],
+          store: new TieredStore({ store: shared, syncThreshold: 0.5 })
+        })
+    );
+    const event = mockEvent() as RequestEvent;
+
+    let allowed = 0;
+    for (let i = 0; i < 30; i++) {
+      if (!(await instances[i % 3].isLimited(event))) allowed++;
+    }
+
+    expect(allowed).toBeGreaterThanOrEqual(10);
+    expect(allowed).toBeLessThanOrEqual(10 + 2 * 0.5 * 10);
+  });
+
+  it('should forward blocks and resets to the shared store', async () => {
+    const store = new TieredStore({ store: new TTLStore(60000) });
+    const event = mockEvent() as RequestEvent;
+    const limiter = new RateLimiter({ hashFunction, store, IP: [10, 'm'] });
+
+    expect(await limiter.isLimited(event)).toEqual(false);
+    await limiter.block(event, '1m');
+    expect(await limiter.isLimited(event)).toEqual(true);
+
+    await limiter.reset(event);
+    expect(await limiter.isLimited(event)).toEqual(false);
+  });
+
+  it('should require a weighted shared store', () => {
+    expect(
+      () => new TieredStore({ store: { add: () => 1, clear: () => {} } })
+    ).toThrow('must be weighted');
+  });
+});
+
+describe('File store', () => {
+  async function tempFile() {
+    const dir = await mkdtemp(join(tmpdir(), 'rate-limiter-'));
+    return join(dir, 'limits.json');
+  }
+
+  it('should keep the limits and blocks across restarts', async () => {
+    const path = await tempFile();
+    const event = mockEvent() as RequestEvent;
+    const other = { ...mockEvent(), getClientAddress: () => '10.0.0.1' };
+
+    const limiter = (store: FileStore) =>
+      new RateLimiter({ hashFunction, store, IP: [2, 'm'] });
+
+    const store = new FileStore({ path });
+    const first = limiter(store);
+    expect(await first.isLimited(event)).toEqual(false);
+    expect(await first.isLimited(event)).toEqual(false);
+    await first.block(other as RequestEvent, '1h');
+    await store.save();
+
+    const restarted = limiter(new FileStore({ path }));
+    expect(await restarted.isLimited(event)).toEqual(true);
+    expect(await restarted.isLimited(other as RequestEvent)).toEqual(true);
+
+    const info = restarted.rateLimitInfo(other as RequestEvent);
+    assert(info);
+    expect(info.resetAt).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+  });
+
+  it('should count the downtime towards the TTL', async () => {
+    const path = await tempFile();
+    const event = mockEvent() as RequestEvent;
+
+    const store = new FileStore({ path });
+    const limiter = new RateLimiter({ hashFunction, store, IP: [1, '200ms'] });
+    expect(await limiter.isLimited(event)).toEqual(false);
+    await store.save();
+
+    await delay(220);
+
+    const restarted = new FileStore({ path });
+    const limiter2 = new RateLimiter({
+      hashFunction,
+      store: restarted,
+      IP: [1, '200ms']
+    });
+    expect(await limiter2.isLimited(event)).toEqual(false);
+    await restarted.save();
+
+    expect(JSON.parse(await readFile(path, 'utf8')).cache).toHaveLength(1);
+  });
+
+  it('should save the changes after the save interval', async () => {
+    const path = await tempFile();
+    const store = new FileStore({ path, saveInterval: 20 });
+
+    await store.add('a', 60000);
+    await expect(readFile(path, 'utf8')).rejects.toThrow('ENOENT');
+
+    await delay(50);
+    const saved = JSON.parse(await readFile(path, 'utf8'));
+    expect(saved.cache.map(([hash]: [string]) => hash)).toEqual(['a']);
+  });
+
+  it('should replace the file atomically and start empty if it is unreadable', async () => {
+    const path = await tempFile();
+    const store = new FileStore({ path });
+    await store.add('a', 60000);
+    await store.save();
+
+    expect(await readdir(dirname(path))).toEqual(['limits.json']);
+
+    await writeFile(path, '{"cache": [["a", ');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const restarted = new FileStore({ path });
+    expect((await restarted.get('a', 60000)).count).toEqual(0);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
 });
@@ -1,2 +1,10 @@
 // Top-level export, to make vite/vitest satisfied
-export type { Rate, RateUnit } from './server/rate.js';
+export type {
+  Rate,
+  RateUnit,
+  RateDuration,
+  RateOptions,
+  CalendarRateOptions,
+  CalendarWindow,
+  RateAlgorithm
+} from './server/rate.js';
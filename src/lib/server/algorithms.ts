@@ -0,0 +1,209 @@
+import { rateWindowEnd, type TTLRate } from './rate.js';
+
+/**
+ * Per-hash state for the rate algorithms, as kept by the in-memory stores.
+ */
+export type AlgorithmState =
+  | { algorithm: 'fixed-window'; count: number; resetAt: number }
+  | { algorithm: 'sliding-window-log'; hits: number[] }
+  | {
+      algorithm: 'sliding-window-counter';
+      start: number;
+      current: number;
+      previous: number;
+    }
+  | { algorithm: 'token-bucket'; tokens: number; updated: number };
+
+export type AlgorithmResult = {
+  state: AlgorithmState;
+  /**
+   * Hit count, compared to the rate capacity.
+   */
+  count: number;
+  /**
+   * Unix timestamp (ms) when a limited request can be retried,
+   * or when the quota is restored if not limited.
+   */
+  resetAt: number;
+  /**
+   * How long the state needs to be stored, in ms.
+   */
+  ttl: number;
+};
+
+/**
+ * Counts a hit for the rate, returning the new state.
+ * Limited hits are not counted, so a rejected request doesn't consume any quota.
+ * With a cost of 0, the current count is returned without counting a hit.
+ */
+export function consume(
+  state: AlgorithmState | undefined,
+  rate: TTLRate,
+  now = Date.now(),
+  cost = 1
+): AlgorithmResult {
+  switch (rate.algorithm) {
+    case 'fixed-window':
+      return fixedWindow(
+        state?.algorithm == rate.algorithm ? state : undefined,
+        rate,
+        now,
+        cost
+      );
+    case 'sliding-window-log':
+      return slidingWindowLog(
+        state?.algorithm == rate.algorithm ? state : undefined,
+        rate,
+        now,
+        cost
+      );
+    case 'sliding-window-counter':
+      return slidingWindowCounter(
+        state?.algorithm == rate.algorithm ? state : undefined,
+        rate,
+        now,
+        cost
+      );
+    case 'token-bucket':
+      return tokenBucket(
+        state?.algorithm == rate.algorithm ? state : undefined,
+        rate,
+        now,
+        cost
+      );
+  }
+}
+
+function stateTTL(expires: number, now: number) {
+  return Math.max(1, Math.ceil(expires - now));
+}
+
+function fixedWindow(
+  state: Extract<AlgorithmState, { algorithm: 'fixed-window' }> | undefined,
+  rate: TTLRate,
+  now: number,
+  cost: number
+): AlgorithmResult {
+  const current =
+    state && state.resetAt > now
+      ? state
+      : { count: 0, resetAt: rateWindowEnd(rate, now) };
+
+  const count = Math.max(0, current.count + cost);
+  const limited = count > rate.limit;
+
+  return {
+    state: {
+      algorithm: 'fixed-window',
+      count: limited ? current.count : count,
+      resetAt: current.resetAt
+    },
+    count,
+    resetAt: current.resetAt,
+    ttl: stateTTL(current.resetAt, now)
+  };
+}
+
+function slidingWindowLog(
+  state:
+    | Extract<AlgorithmState, { algorithm: 'sliding-window-log' }>
+    | undefined,
+  rate: TTLRate,
+  now: number,
+  cost: number
+): AlgorithmResult {
+  const hits = (state?.hits ?? []).filter((time) => time > now - rate.ttl);
+  const count = hits.length + cost;
+  const limited = count > rate.limit;
+
+  if (!limited) {
+    if (cost > 0) hits.push(...new Array<number>(cost).fill(now));
+    else hits.splice(Math.max(0, hits.length + cost));
+  }
+
+  const last = hits.length ? hits[hits.length - 1] : now;
+
+  return {
+    state: { algorithm: 'sliding-window-log', hits },
+    count,
+    // When limited, the oldest hit has to expire before a retry.
+    resetAt: (limited ? (hits[0] ?? now) : last) + rate.ttl,
+    ttl: stateTTL(last + rate.ttl, now)
+  };
+}
+
+function slidingWindowCounter(
+  state:
+    | Extract<AlgorithmState, { algorithm: 'sliding-window-counter' }>
+    | undefined,
+  rate: TTLRate,
+  now: number,
+  cost: number
+): AlgorithmResult {
+  const start = now - (now % rate.ttl);
+  let current = 0;
+  let previous = 0;
+
+  if (state?.start == start) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.start == start - rate.ttl) {
+    previous = state.current;
+  }
+
+  // The previous window is weighted by how much of it still overlaps
+  const weight = (rate.ttl - (now - start)) / rate.ttl;
+  const count = Math.floor(previous * weight) + current + cost;
+  const limited = count > rate.limit;
+
+  if (!limited) current = Math.max(0, current + cost);
+
+  let resetAt = start + rate.ttl;
+  if (limited) {
+    const room = rate.limit - current;
+    if (room > 0 && previous > 0) {
+      resetAt = Math.min(
+        resetAt,
+        start + Math.floor(rate.ttl * (1 - room / previous)) + 1
+      );
+    }
+  }
+
+  return {
+    state: { algorithm: 'sliding-window-counter', start, current, previous },
+    count,
+    resetAt,
+    ttl: stateTTL(start + 2 * rate.ttl, now)
+  };
+}
+
+function tokenBucket(
+  state: Extract<AlgorithmState, { algorithm: 'token-bucket' }> | undefined,
+  rate: TTLRate,
+  now: number,
+  cost: number
+): AlgorithmResult {
+  const capacity = rate.burst ?? rate.limit;
+  const refill = rate.limit / rate.ttl;
+
+  let tokens = state
+    ? Math.min(capacity, state.tokens + (now - state.updated) * refill)
+    : capacity;
+
+  // Tokens in use, including the current hit
+  const count = Math.ceil(capacity - tokens + cost);
+  const limited = count > capacity;
+
+  if (!limited) tokens = Math.min(capacity, tokens - cost);
+
+  const resetAt = limited
+    ? now + Math.ceil((cost - tokens) / refill)
+    : now + Math.ceil((capacity - tokens) / refill);
+
+  return {
+    state: { algorithm: 'token-bucket', tokens, updated: now },
+    count,
+    resetAt,
+    ttl: stateTTL(now + (capacity - tokens) / refill, now)
+  };
+}
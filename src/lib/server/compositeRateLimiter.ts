@@ -0,0 +1,193 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type {
+  RateLimiter,
+  RateLimiterCheckArgs,
+  RateLimiterCheckOptions,
+  RateLimitReason
+} from './rateLimiter.js';
+
+/**
+ * How the results of the combined limiters decide the result:
+ * - `all` - Limited if any limiter limits the request. All limiters are evaluated.
+ * - `any` - Limited only if every limiter limits the request. Stops at the first limiter that allows it.
+ * - `first` - Decided by the first limiter with a plugin matching the request. Stops at that limiter.
+ */
+export type CompositeMode = 'all' | 'any' | 'first';
+
+export type CombinedLimiter<Extra = never> =
+  | RateLimiter<Extra>
+  | CompositeRateLimiter<Extra>;
+
+export type TriggeredLimiter<Extra = never> = {
+  /**
+   * Index of the limiter in the combined list.
+   */
+  index: number;
+  limiter: CombinedLimiter<Extra>;
+  reason: RateLimitReason;
+  /**
+   * Seconds until the limiter allows requests again, for Retry-After limiters.
+   */
+  retryAfter?: number;
+  /**
+   * The limiters triggered within a combined limiter.
+   */
+  triggered?: TriggeredLimiter<Extra>[];
+};
+
+export type CompositeCheckResult<Extra = never> =
+  | { limited: false }
+  | {
+      limited: true;
+      /**
+       * Reason of the first triggered limiter.
+       */
+      reason: RateLimitReason;
+      /**
+       * Seconds until the combined limiter allows the request, if all triggered limiters report it.
+       */
+      retryAfter?: number;
+      triggered: TriggeredLimiter<Extra>[];
+    };
+
+type LimitedResult = {
+  limited: true;
+  reason: RateLimitReason;
+  retryAfter?: number;
+  triggered?: TriggeredLimiter<never>[];
+};
+
+/**
+ * Combines multiple limiters into one, created with `RateLimiter.all`,
+ * `RateLimiter.any` or `RateLimiter.first`.
+ * Only the limiters that are evaluated will count the request.
+ */
+export class CompositeRateLimiter<Extra = never> {
+  readonly mode: CompositeMode;
+  readonly limiters: readonly CombinedLimiter<Extra>[];
+  private readonly matched: (
+    limiter: RateLimiter<Extra>,
+    event: RequestEvent
+  ) => boolean;
+  private readonly unmatched = new WeakSet<RequestEvent>();
+
+  constructor(
+    mode: CompositeMode,
+    limiters: CombinedLimiter<Extra>[],
+    matched: (limiter: RateLimiter<Extra>, event: RequestEvent) => boolean
+  ) {
+    if (!limiters.length) {
+      throw new Error(`No limiters to combine for RateLimiter.${mode}`);
+    }
+
+    this.mode = mode;
+    this.limiters = [...limiters];
+    this.matched = matched;
+  }
+
+  /**
+   * Check if a request event is rate limited.
+   * @param {RequestEvent} event
+   * @returns {Promise<boolean>} true if request is limited, false otherwise
+   */
+  async isLimited(
+    event: [Extra] extends [never]
+      ? RequestEvent
+      : { missing_extraData: Extra },
+    extraData?: undefined,
+    options?: RateLimiterCheckOptions
+  ): Promise<boolean>;
+
+  /**
+   * Check if a request event is rate limited, supplying extra data that will be available for plugins.
+   * @param {RequestEvent} event
+   * @returns {Promise<boolean>} true if request is limited, false otherwise
+   */
+  async isLimited(
+    event: RequestEvent,
+    extraData: Extra,
+    options?: RateLimiterCheckOptions
+  ): Promise<boolean>;
+
+  async isLimited(event: unknown, ...args: unknown[]): Promise<boolean> {
+    return (
+      await this.check(
+        event as RequestEvent,
+        ...(args as RateLimiterCheckArgs<Extra>)
+      )
+    ).limited;
+  }
+
+  /**
+   * Check if a request event is rate limited by the combined limiters.
+   * @param {RequestEvent} event
+   * @returns {Promise<CompositeCheckResult>} Rate limit status for the event, with every triggered limiter.
+   */
+  async check(
+    event: RequestEvent,
+    ...args: RateLimiterCheckArgs<Extra>
+  ): Promise<CompositeCheckResult<Extra>> {
+    const triggered: TriggeredLimiter<Extra>[] = [];
+    let matched = false;
+
+    try {
+      for (let index = 0; index < this.limiters.length; index++) {
+        const limiter = this.limiters[index];
+        const result = (await limiter.check(event, ...args)) as
+          | { limited: false }
+          | LimitedResult;
+
+        const limiterMatched = this.isMatched(limiter, event);
+        if (limiterMatched) matched = true;
+
+        if (this.mode == 'first') {
+          // Limiters without a matching plugin are passed, except the last
+          if (!limiterMatched && index < this.limiters.length - 1) continue;
+          if (result.limited) triggered.push({ index, limiter, ...result });
+          break;
+        }
+
+        if (!result.limited) {
+          if (this.mode == 'any') return { limited: false };
+          continue;
+        }
+
+        triggered.push({ index, limiter, ...result });
+      }
+
+      if (!triggered.length) return { limited: false };
+
+      return {
+        limited: true,
+        reason: triggered[0].reason,
+        ...this.retryAfter(triggered),
+        triggered
+      };
+    } finally {
+      if (matched) this.unmatched.delete(event);
+      else this.unmatched.add(event);
+    }
+  }
+
+  /**
+   * All triggered limiters must allow the request for "all",
+   * but only one of them for "any".
+   */
+  private retryAfter(triggered: TriggeredLimiter<Extra>[]) {
+    const seconds = triggered.map((t) => t.retryAfter);
+    if (!seconds.every((s) => s !== undefined)) return {};
+
+    return {
+      retryAfter:
+        this.mode == 'any'
+          ? Math.min(...(seconds as number[]))
+          : Math.max(...(seconds as number[]))
+    };
+  }
+
+  private isMatched(limiter: CombinedLimiter<Extra>, event: RequestEvent) {
+    return limiter instanceof CompositeRateLimiter
+      ? !limiter.unmatched.has(event)
+      : this.matched(limiter, event);
+  }
+}
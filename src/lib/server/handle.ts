@@ -0,0 +1,242 @@
+import type { Handle, RequestEvent } from '@sveltejs/kit';
+import {
+  RateLimiter,
+  type RateLimiterOptions,
+  type RateLimitReason,
+  type RateLimitTicket
+} from './rateLimiter.js';
+import {
+  rateLimitHeaders,
+  type RateLimitHeadersFormat,
+  type RateLimitInfo
+} from './headers.js';
+
+export type RateLimitRule = RateLimitRuleMatch &
+  (
+    | { options: RateLimiterOptions; limiter?: never }
+    | {
+        /**
+         * A limiter to use instead of the options, for sharing it with the routes.
+         * Required for cookie preflight, since the routes must call `cookieLimiter.preflight`.
+         */
+        limiter: RateLimiter;
+        options?: never;
+      }
+  );
+
+type RateLimitRuleMatch = {
+  /**
+   * Route id(s) to match, like '/blog/[slug]'.
+   */
+  routeId?: string | string[];
+  /**
+   * Path to match. In a string, * matches within a path segment and ** matches any path.
+   */
+  path?: string | RegExp;
+  /**
+   * HTTP method(s) to match.
+   */
+  method?: string | string[];
+  /**
+   * Form action name(s) to match, 'default' for the default action.
+   * Only matches POST requests.
+   */
+  action?: string | string[];
+};
+
+export type RateLimitHandleStatus = {
+  reason: RateLimitReason;
+  retryAfter: number;
+  info: RateLimitInfo | undefined;
+};
+
+export type RateLimitHandleOptions = {
+  /**
+   * All matching rules are checked in order, until a request is limited.
+   * For rules with the skipSuccessful option, responses with a status below 400
+   * are successful, and their hits will be refunded.
+   */
+  rules: RateLimitRule[];
+  /**
+   * Response for limited requests. 'auto' (default) responds with HTML if
+   * the request accepts it, otherwise JSON.
+   */
+  response?:
+    | 'auto'
+    | 'json'
+    | 'html'
+    | ((
+        event: RequestEvent,
+        status: RateLimitHandleStatus
+      ) => Response | Promise<Response>);
+  /**
+   * Message for the default responses.
+   */
+  message?: string;
+  /**
+   * Add RateLimit headers in this format to the responses.
+   */
+  headers?: RateLimitHeadersFormat;
+};
+
+function toArray<T>(value: T | T[] | undefined) {
+  return value === undefined
+    ? undefined
+    : Array.isArray(value)
+      ? value
+      : [value];
+}
+
+function pathRegExp(path: string | RegExp) {
+  if (path instanceof RegExp) return path;
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const source = path
+    .split('**')
+    .map((part) => part.split('*').map(escape).join('[^/]*'))
+    .join('.*');
+  return new RegExp('^' + source + '$');
+}
+
+function actionName(url: URL) {
+  for (const [key] of url.searchParams) {
+    if (key.startsWith('/')) return key.slice(1);
+  }
+  return 'default';
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Create a handle function for hooks.server.ts, rate limiting the requests matching the rules.
+ */
+export function createRateLimitHandle(options: RateLimitHandleOptions): Handle {
+  const rules = options.rules.map((rule) => {
+    const methods = toArray(rule.method)?.map((m) => m.toUpperCase());
+    const actions = toArray(rule.action);
+    const cookie = rule.options?.cookie ?? rule.options?.rates?.cookie;
+
+    // A limiter created here can't be reached by the routes to issue the cookie
+    if (cookie?.preflight) {
+      throw new Error(
+        'Cookie preflight in a rate limit rule requires passing the limiter, so the routes can call preflight.'
+      );
+    }
+
+    const limiter = rule.limiter ?? new RateLimiter(rule.options);
+
+    return {
+      routeIds: toArray(rule.routeId),
+      path: rule.path === undefined ? undefined : pathRegExp(rule.path),
+      methods: actions && !methods ? ['POST'] : methods,
+      actions,
+      limiter,
+      skipSuccessful: limiter.skipSuccessful
+    };
+  });
+
+  const message =
+    options.message ?? 'Too many requests, please try again later.';
+
+  function matches(rule: (typeof rules)[number], event: RequestEvent) {
+    if (rule.routeIds && !rule.routeIds.includes(event.route.id ?? '')) {
+      return false;
+    }
+    if (rule.path && !rule.path.test(event.url.pathname)) return false;
+    if (rule.methods && !rule.methods.includes(event.request.method)) {
+      return false;
+    }
+    if (
+      rule.actions &&
+      (event.request.method != 'POST' ||
+        !rule.actions.includes(actionName(event.url)))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  function limitedResponse(event: RequestEvent, status: RateLimitHandleStatus) {
+    const headers: Record<string, string> =
+      status.info && options.headers
+        ? rateLimitHeaders(status.info, options.headers)
+        : {};
+
+    headers['Retry-After'] = status.retryAfter.toString();
+
+    const format =
+      options.response == 'html' || options.response == 'json'
+        ? options.response
+        : event.request.headers.get('accept')?.includes('text/html')
+          ? 'html'
+          : 'json';
+
+    if (format == 'html') {
+      headers['Content-Type'] = 'text/html; charset=utf-8';
+      return new Response(
+        `<!doctype html><html><head><title>429 Too Many Requests</title></head>` +
+          `<body><h1>Too Many Requests</h1><p>${escapeHtml(message)}</p></body></html>`,
+        { status: 429, headers }
+      );
+    }
+
+    headers['Content-Type'] = 'application/json';
+    return new Response(
+      JSON.stringify({ message, retryAfter: status.retryAfter }),
+      { status: 429, headers }
+    );
+  }
+
+  return async ({ event, resolve }) => {
+    // The most restrictive rate of the matched rules
+    let info: RateLimitInfo | undefined = undefined;
+    const tickets: RateLimitTicket[] = [];
+
+    for (const rule of rules) {
+      if (!matches(rule, event)) continue;
+
+      let result: Awaited<ReturnType<RateLimiter['check']>>;
+
+      if (rule.skipSuccessful) {
+        const ticket = await rule.limiter.reserve(event);
+        tickets.push(ticket);
+        result = ticket;
+      } else {
+        result = await rule.limiter.check(event);
+      }
+
+      const ruleInfo = rule.limiter.rateLimitInfo(event);
+
+      if (result.limited) {
+        const status: RateLimitHandleStatus = {
+          reason: result.reason,
+          retryAfter: ruleInfo
+            ? Math.max(0, Math.ceil((ruleInfo.resetAt - Date.now()) / 1000))
+            : 0,
+          info: ruleInfo
+        };
+
+        return typeof options.response == 'function'
+          ? options.response(event, status)
+          : limitedResponse(event, status);
+      }
+
+      if (ruleInfo && (!info || ruleInfo.remaining < info.remaining)) {
+        info = ruleInfo;
+      }
+    }
+
+    if (info && options.headers) {
+      event.setHeaders(rateLimitHeaders(info, options.headers));
+    }
+
+    const response = await resolve(event);
+
+    for (const ticket of tickets) {
+      await ticket.settle(response.status < 400);
+    }
+
+    return response;
+  };
+}
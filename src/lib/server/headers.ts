@@ -0,0 +1,44 @@
+/**
+ * Rate limit status for the rate that bound a request.
+ */
+export type RateLimitInfo = {
+  limited: boolean;
+  limit: number;
+  remaining: number;
+  /**
+   * Unix timestamp (ms) when the rate resets.
+   */
+  resetAt: number;
+  /**
+   * Window of the rate, in ms.
+   */
+  window: number;
+};
+
+/**
+ * draft-7: RateLimit and RateLimit-Policy, from the IETF RateLimit header fields draft.
+ * legacy: X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset (unix time in seconds).
+ */
+export type RateLimitHeadersFormat = 'draft-7' | 'legacy';
+
+export function rateLimitHeaders(
+  info: RateLimitInfo,
+  format: RateLimitHeadersFormat = 'draft-7',
+  now = Date.now()
+): Record<string, string> {
+  const reset = Math.max(0, Math.ceil((info.resetAt - now) / 1000));
+  const headers: Record<string, string> =
+    format == 'legacy'
+      ? {
+          'X-RateLimit-Limit': info.limit.toString(),
+          'X-RateLimit-Remaining': info.remaining.toString(),
+          'X-RateLimit-Reset': Math.ceil(info.resetAt / 1000).toString()
+        }
+      : {
+          RateLimit: `limit=${info.limit}, remaining=${info.remaining}, reset=${reset}`,
+          'RateLimit-Policy': `${info.limit};w=${Math.ceil(info.window / 1000)}`
+        };
+
+  if (info.limited) headers['Retry-After'] = reset.toString();
+  return headers;
+}
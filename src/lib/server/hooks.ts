@@ -0,0 +1,128 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { TTLRate } from './rate.js';
+import type { RateCheckDetail, RateLimitReason } from './rateLimiter.js';
+
+export type RateLimiterCheckPayload = {
+  event: RequestEvent;
+  limited: boolean;
+  /**
+   * The reason, if the request was limited.
+   */
+  reason?: RateLimitReason;
+  cost: number;
+  /**
+   * Duration of the check in ms.
+   */
+  duration: number;
+  /**
+   * The status of every evaluated plugin and rate, as in a verbose check.
+   */
+  rates: RateCheckDetail[];
+};
+
+export type RateLimiterAllowedPayload = {
+  event: RequestEvent;
+  cost: number;
+  rates: RateCheckDetail[];
+};
+
+export type RateLimiterLimitedPayload = {
+  event: RequestEvent;
+  reason: RateLimitReason;
+  cost: number;
+  /**
+   * The plugin rate that limited the request.
+   */
+  trigger: RateCheckDetail | undefined;
+  rates: RateCheckDetail[];
+};
+
+export type RateLimiterBypassPayload = {
+  event: RequestEvent;
+  /**
+   * The plugin that returned true.
+   */
+  plugin: string;
+  rate: TTLRate;
+};
+
+export type RateLimiterStoreErrorPayload = {
+  operation: 'add' | 'get' | 'delete' | 'block' | 'clear' | 'prepare';
+  /**
+   * The hash of the operation, except for clear and prepare.
+   */
+  hash?: string;
+  error: unknown;
+  /**
+   * True if the operation failed in the fallback store as well.
+   */
+  fallback?: boolean;
+};
+
+export type RateLimiterPreflightPayload = {
+  event: RequestEvent;
+  /**
+   * Name of the cookie that was set.
+   */
+  cookie: string;
+};
+
+/**
+ * Hooks for observing the limiter. Errors thrown by the hooks are logged, not rethrown.
+ */
+export type RateLimiterHooks = {
+  /**
+   * Called after every check, limited or not.
+   */
+  onCheck?: (payload: RateLimiterCheckPayload) => void | Promise<void>;
+  onAllowed?: (payload: RateLimiterAllowedPayload) => void | Promise<void>;
+  onLimited?: (payload: RateLimiterLimitedPayload) => void | Promise<void>;
+  /**
+   * Called when a plugin returns true, allowing the request without checking the remaining rates.
+   */
+  onBypass?: (payload: RateLimiterBypassPayload) => void | Promise<void>;
+  /**
+   * Called when a store operation throws or times out. The error is rethrown after
+   * the hook, unless it's handled by the storeFailure option or the fallback store.
+   */
+  onStoreError?: (
+    payload: RateLimiterStoreErrorPayload
+  ) => void | Promise<void>;
+  /**
+   * Called when the cookie limiter sets a new cookie for a client.
+   */
+  onPreflightIssued?: (
+    payload: RateLimiterPreflightPayload
+  ) => void | Promise<void>;
+};
+
+/**
+ * The payload of each hook.
+ */
+export type RateLimiterHookPayloads = {
+  [K in keyof RateLimiterHooks]-?: Parameters<
+    NonNullable<RateLimiterHooks[K]>
+  >[0];
+};
+
+/**
+ * Calls a hook in every hook set, logging any errors.
+ */
+export async function emitHook<K extends keyof RateLimiterHooks>(
+  hooks: RateLimiterHooks[],
+  name: K,
+  payload: RateLimiterHookPayloads[K]
+) {
+  for (const set of hooks) {
+    const hook = set[name] as
+      | ((payload: RateLimiterHookPayloads[K]) => void | Promise<void>)
+      | undefined;
+    if (!hook) continue;
+
+    try {
+      await hook(payload);
+    } catch (e) {
+      console.warn(`RateLimiter: Error in the ${name} hook.`, e);
+    }
+  }
+}
@@ -1,9 +1,69 @@
-export { RateLimiter, type RateLimiterOptions } from './rateLimiter.js';
+export {
+  RateLimiter,
+  type RateLimiterOptions,
+  type RateLimiterBanOptions,
+  type RateLimiterCheckOptions,
+  type RateLimiterCheckArgs,
+  type RateLimitReason,
+  type RateCheckDetail,
+  type RateLimitTicket,
+  type RateStatus
+} from './rateLimiter.js';
 export { RetryAfterRateLimiter } from './retryAfterRateLimiter.js';
+export {
+  CompositeRateLimiter,
+  type CompositeMode,
+  type CompositeCheckResult,
+  type CombinedLimiter,
+  type TriggeredLimiter
+} from './compositeRateLimiter.js';
 export { defaultHashFunction } from './hashFunction.js';
 export { TTLTime } from './rate.js';
+export { rateLimitHeaders } from './headers.js';
+export { createRateLimitHandle } from './handle.js';
+export { createIPResolver, cidrMatcher, normalizeIP } from './ip.js';
+export { createTelemetryHooks } from './telemetry.js';
 
-export type { RateLimiterPlugin } from './limiters/rateLimiterPlugin.js';
-export type { RateLimiterStore } from './stores/index.js';
+export type {
+  RateLimiterPlugin,
+  RateLimiterPluginHash
+} from './limiters/rateLimiterPlugin.js';
+export type {
+  RateLimiterStore,
+  RateLimiterStoreResult,
+  LegacyRateLimiterStore,
+  StoreFailurePolicy
+} from './stores/index.js';
+export type { RateLimitInfo, RateLimitHeadersFormat } from './headers.js';
+export type {
+  RateLimitRule,
+  RateLimitHandleOptions,
+  RateLimitHandleStatus
+} from './handle.js';
+export type { IPResolver, IPResolverOptions, IPSubnetOptions } from './ip.js';
+export type {
+  RateLimiterHooks,
+  RateLimiterHookPayloads,
+  RateLimiterCheckPayload,
+  RateLimiterAllowedPayload,
+  RateLimiterLimitedPayload,
+  RateLimiterBypassPayload,
+  RateLimiterStoreErrorPayload,
+  RateLimiterPreflightPayload
+} from './hooks.js';
+export type {
+  MeterLike,
+  MetricAttributes,
+  TelemetryHooksOptions
+} from './telemetry.js';
 export type { HashFunction } from './hashFunction.js';
-export type { Rate, RateUnit } from './rate.js';
+export type {
+  Rate,
+  RateUnit,
+  RateDuration,
+  RateOptions,
+  CalendarRateOptions,
+  CalendarWindow,
+  RateAlgorithm,
+  TTLRate
+} from './rate.js';
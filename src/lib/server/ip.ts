@@ -0,0 +1,293 @@
+import type { RequestEvent } from '@sveltejs/kit';
+
+export type IPResolver = (event: RequestEvent) => string;
+
+export type IPResolverOptions = {
+  /**
+   * Addresses of the trusted proxies, in CIDR notation or as single addresses.
+   */
+  trustedProxies: string[];
+  /**
+   * Headers to check in order, only when the immediate peer is a trusted proxy.
+   * Default: `['forwarded', 'x-forwarded-for', 'x-real-ip']`
+   */
+  headers?: string[];
+};
+
+/**
+ * Prefix lengths for aggregating addresses into subnets before they are counted.
+ */
+export type IPSubnetOptions = {
+  /**
+   * Prefix length for IPv6 addresses, usually 48, 56 or 64.
+   */
+  ipv6?: number;
+  /**
+   * Prefix length for IPv4 addresses, for example 24.
+   */
+  ipv4?: number;
+};
+
+type CIDR = { bytes: number[]; prefix: number };
+
+/**
+ * Parses an IPv4 or IPv6 address into its bytes, or null if invalid.
+ * IPv4-mapped IPv6 addresses are returned as IPv4.
+ */
+export function parseIP(address: string): number[] | null {
+  let ip = address.trim();
+
+  if (ip.startsWith('[') && ip.endsWith(']')) ip = ip.slice(1, -1);
+
+  const zone = ip.indexOf('%');
+  if (zone >= 0) ip = ip.slice(0, zone);
+
+  if (!ip.includes(':')) return parseIPv4(ip);
+
+  const bytes = parseIPv6(ip);
+  if (
+    bytes &&
+    bytes.slice(0, 10).every((b) => b == 0) &&
+    bytes[10] == 0xff &&
+    bytes[11] == 0xff
+  ) {
+    return bytes.slice(12);
+  }
+
+  return bytes;
+}
+
+function parseIPv4(ip: string) {
+  const parts = ip.split('.');
+  if (parts.length != 4) return null;
+
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? +part : NaN));
+  return bytes.every((b) => b <= 255) ? bytes : null;
+}
+
+function parseIPv6(ip: string) {
+  // Embedded IPv4 in the last 32 bits
+  const last = ip.lastIndexOf(':');
+  if (ip.includes('.', last)) {
+    const v4 = parseIPv4(ip.slice(last + 1));
+    if (!v4) return null;
+    ip =
+      ip.slice(0, last + 1) +
+      ((v4[0] << 8) | v4[1]).toString(16) +
+      ':' +
+      ((v4[2] << 8) | v4[3]).toString(16);
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+
+  const groups = (part: string) => (part ? part.split(':') : []);
+  const head = groups(halves[0]);
+  const tail = halves.length == 2 ? groups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length == 2 ? missing < 1 : missing != 0) return null;
+
+  const bytes: number[] = [];
+  for (const group of [
+    ...head,
+    ...new Array<string>(halves.length == 2 ? missing : 0).fill('0'),
+    ...tail
+  ]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+
+  return bytes;
+}
+
+/**
+ * Formats address bytes in the canonical form, compressed IPv6 as in RFC 5952.
+ */
+export function formatIP(bytes: number[]): string {
+  if (bytes.length == 4) return bytes.join('.');
+
+  const groups: number[] = [];
+  for (let i = 0; i < bytes.length; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // The longest run of zero groups, at least two, is compressed
+  let start = -1;
+  let length = 1;
+  for (let i = 0; i < groups.length; i++) {
+    let end = i;
+    while (end < groups.length && groups[end] == 0) end++;
+    if (end - i > length) {
+      start = i;
+      length = end - i;
+    }
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (start < 0) return hex.join(':');
+
+  return (
+    hex.slice(0, start).join(':') + '::' + hex.slice(start + length).join(':')
+  );
+}
+
+function mask(bytes: number[], prefix: number) {
+  return bytes.map((byte, i) => {
+    const bits = Math.min(8, Math.max(0, prefix - i * 8));
+    return byte & ((0xff << (8 - bits)) & 0xff);
+  });
+}
+
+/**
+ * Validates the prefix lengths of the subnet options.
+ */
+export function validateSubnet(subnet: IPSubnetOptions) {
+  for (const [prefix, max] of [
+    [subnet.ipv4, 32],
+    [subnet.ipv6, 128]
+  ] as const) {
+    if (
+      prefix !== undefined &&
+      (!Number.isInteger(prefix) || prefix < 0 || prefix > max)
+    ) {
+      throw new Error(`Invalid subnet prefix length: ${prefix}`);
+    }
+  }
+}
+
+/**
+ * Canonicalizes an address, so different textual forms of it are equal.
+ * With a subnet prefix for its IP version, the address is masked and
+ * returned in CIDR notation. Invalid addresses are returned as they are.
+ */
+export function normalizeIP(address: string, subnet: IPSubnetOptions = {}) {
+  const bytes = parseIP(address);
+  if (!bytes) return address;
+
+  const prefix = bytes.length == 4 ? subnet.ipv4 : subnet.ipv6;
+  if (prefix === undefined) return formatIP(bytes);
+
+  return formatIP(mask(bytes, prefix)) + '/' + prefix;
+}
+
+function parseCIDR(cidr: string): CIDR {
+  const [address, prefixStr, ...rest] = cidr.split('/');
+  const bytes = parseIP(address);
+
+  if (!bytes || rest.length) throw new Error('Invalid CIDR: ' + cidr);
+
+  let prefix = prefixStr === undefined ? bytes.length * 8 : Number(prefixStr);
+
+  // IPv4-mapped ranges are parsed as IPv4
+  if (bytes.length == 4 && address.includes(':') && prefixStr !== undefined) {
+    prefix -= 96;
+  }
+
+  if (
+    (prefixStr !== undefined && !/^\d+$/.test(prefixStr)) ||
+    !Number.isInteger(prefix) ||
+    prefix < 0 ||
+    prefix > bytes.length * 8
+  ) {
+    throw new Error('Invalid CIDR: ' + cidr);
+  }
+
+  return { bytes, prefix };
+}
+
+function inRange(bytes: number[], range: CIDR) {
+  if (bytes.length != range.bytes.length) return false;
+
+  for (let i = 0, bits = range.prefix; bits > 0; i++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff;
+    if ((bytes[i] & mask) != (range.bytes[i] & mask)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Creates a function testing if an address is in any of the ranges,
+ * in CIDR notation or as single addresses.
+ */
+export function cidrMatcher(ranges: string[]): (address: string) => boolean {
+  const parsed = ranges.map(parseCIDR);
+
+  return (address: string) => {
+    const bytes = parseIP(address);
+    return !!bytes && parsed.some((range) => inRange(bytes, range));
+  };
+}
+
+/**
+ * Extracts the address from a header value, removing quotes, brackets and port.
+ */
+function hostOf(value: string) {
+  const host = value.trim().replace(/^"(.*)"$/, '$1');
+
+  if (host.startsWith('[')) {
+    const end = host.indexOf(']');
+    return end > 0 ? host.slice(1, end) : host;
+  }
+
+  // IPv4 with a port
+  const colon = host.indexOf(':');
+  if (colon > 0 && colon == host.lastIndexOf(':')) return host.slice(0, colon);
+
+  return host;
+}
+
+function forwardedFor(header: string) {
+  return header.split(',').map((element) => {
+    for (const pair of element.split(';')) {
+      const [key, value] = pair.split('=');
+      if (key.trim().toLowerCase() == 'for' && value) return hostOf(value);
+    }
+    return '';
+  });
+}
+
+/**
+ * Creates a function resolving the client address of a request event.
+ * Headers are only used when the immediate peer is a trusted proxy, and
+ * proxy chains are walked from the right until an untrusted address is found.
+ */
+export function createIPResolver(options: IPResolverOptions): IPResolver {
+  const trusted = cidrMatcher(options.trustedProxies);
+  const headers = (
+    options.headers ?? ['forwarded', 'x-forwarded-for', 'x-real-ip']
+  ).map((header) => header.toLowerCase());
+
+  // The rightmost untrusted address in the chain is the client.
+  // An invalid address stops the walk at the last valid one.
+  function walk(chain: string[], peer: string) {
+    let client = peer;
+    for (let i = chain.length - 1; i >= 0 && trusted(client); i--) {
+      if (!parseIP(chain[i])) break;
+      client = chain[i];
+    }
+    return client;
+  }
+
+  return (event: RequestEvent) => {
+    const peer = event.getClientAddress();
+    if (!trusted(peer)) return peer;
+
+    for (const name of headers) {
+      const header = event.request.headers.get(name);
+      if (!header) continue;
+
+      if (name == 'forwarded') return walk(forwardedFor(header), peer);
+      if (name == 'x-forwarded-for') {
+        return walk(header.split(',').map(hostOf), peer);
+      }
+
+      const address = hostOf(header);
+      if (parseIP(address)) return address;
+    }
+
+    return peer;
+  };
+}
@@ -13,6 +13,10 @@ export type CookieRateLimiterOptions = {
   preflight: boolean;
   serializeOptions?: CookieSerializeOptions;
   hashFunction?: HashFunction;
+  /**
+   * Called when a new cookie is set for a client.
+   */
+  onPreflightIssued?: (event: RequestEvent) => void | Promise<void>;
 };
 
 export class CookieRateLimiter implements RateLimiterPlugin {
@@ -22,6 +26,7 @@ export class CookieRateLimiter implements RateLimiterPlugin {
   private readonly requirePreflight: boolean;
   private readonly cookieId: string;
   private readonly hashFunction: HashFunction;
+  private readonly onPreflightIssued: CookieRateLimiterOptions['onPreflightIssued'];
 
   constructor(options: CookieRateLimiterOptions) {
     this.cookieId = options.name;
@@ -29,6 +34,7 @@ export class CookieRateLimiter implements RateLimiterPlugin {
     this.rate = options.rate;
     this.requirePreflight = options.preflight;
     this.hashFunction = options.hashFunction ?? defaultHashFunction;
+    this.onPreflightIssued = options.onPreflightIssued;
 
     this.cookieOptions = {
       path: '/',
@@ -47,6 +53,10 @@ export class CookieRateLimiter implements RateLimiterPlugin {
     return currentId ? currentId : false;
   }
 
+  async peekHash(event: RequestEvent) {
+    return this.validUserId(event.cookies.get(this.cookieId));
+  }
+
   async preflight(event: RequestEvent): Promise<string> {
     const data = event.cookies.get(this.cookieId);
     if (data) {
@@ -65,6 +75,7 @@ export class CookieRateLimiter implements RateLimiterPlugin {
       userId + ';' + (await this.hashFunction(this.secret + userId)),
       this.cookieOptions
     );
+    await this.onPreflightIssued?.(event);
     return userId;
   }
 
@@ -74,13 +85,17 @@ export class CookieRateLimiter implements RateLimiterPlugin {
   ): Promise<string | null> {
     if (!cookie) return this.requirePreflight ? null : this.preflight(event);
 
+    return (await this.validUserId(cookie)) ?? this.setPreflightCookie(event);
+  }
+
+  private async validUserId(cookie: string | undefined) {
+    if (!cookie) return null;
+
     const [userId, secretHash] = cookie.split(';');
-    if (!userId || !secretHash) {
-      return this.setPreflightCookie(event);
-    }
+    if (!userId || !secretHash) return null;
 
     if ((await this.hashFunction(this.secret + userId)) != secretHash) {
-      return this.setPreflightCookie(event);
+      return null;
     }
 
     return userId;
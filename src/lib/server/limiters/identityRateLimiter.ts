@@ -0,0 +1,106 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { Rate } from '../rate.js';
+import type {
+  RateLimiterPlugin,
+  RateLimiterPluginHash
+} from './rateLimiterPlugin.js';
+
+type Identity = string | number | null | undefined;
+
+export type IdentityRateLimiterOptions = {
+  /**
+   * Default rate for all identities.
+   */
+  rate: Rate | Rate[];
+  /**
+   * Rates for identities in a tier, like a subscription plan.
+   */
+  tiers?: Record<string, Rate | Rate[]>;
+  /**
+   * Returns the tier for an identity, which will use the rate of the tier instead of the default, if it exists.
+   */
+  tier?: (
+    event: RequestEvent,
+    identity: string
+  ) => Identity | Promise<Identity>;
+};
+
+export type UserRateLimiterOptions = IdentityRateLimiterOptions & {
+  /**
+   * Returns the user id from locals, or null/undefined if not logged in.
+   */
+  user: (locals: RequestEvent['locals']) => Identity;
+};
+
+export type ApiKeyRateLimiterOptions = IdentityRateLimiterOptions & {
+  /**
+   * Header with the API key. Default: The bearer token of the Authorization header.
+   */
+  header?: string;
+};
+
+abstract class IdentityRateLimiter implements RateLimiterPlugin {
+  readonly rate: Rate | Rate[];
+  private readonly tiers: Record<string, Rate | Rate[]>;
+  private readonly tier: IdentityRateLimiterOptions['tier'];
+
+  constructor(options: IdentityRateLimiterOptions) {
+    this.rate = options.rate;
+    this.tiers = options.tiers ?? {};
+    this.tier = options.tier;
+  }
+
+  protected abstract identity(event: RequestEvent): string | null;
+
+  async hash(event: RequestEvent): Promise<RateLimiterPluginHash | null> {
+    const identity = this.identity(event);
+    if (!identity) return null;
+
+    const tier = this.tier ? await this.tier(event, identity) : null;
+
+    // Identities without a tier rate use the default rate
+    const rate =
+      tier === null || tier === undefined ? undefined : this.tiers[tier];
+
+    return rate ? { hash: identity, rate } : { hash: identity };
+  }
+}
+
+/**
+ * Limits logged in users by an id from locals.
+ * Returns null for anonymous requests, so the next limiter will be used.
+ */
+export class UserRateLimiter extends IdentityRateLimiter {
+  private readonly user: UserRateLimiterOptions['user'];
+
+  constructor(options: UserRateLimiterOptions) {
+    super(options);
+    this.user = options.user;
+  }
+
+  protected identity(event: RequestEvent) {
+    const id = this.user(event.locals);
+    return id === null || id === undefined ? null : String(id);
+  }
+}
+
+/**
+ * Limits API clients by their API key.
+ * Returns null for requests without a key, so the next limiter will be used.
+ */
+export class ApiKeyRateLimiter extends IdentityRateLimiter {
+  private readonly header: string | undefined;
+
+  constructor(options: ApiKeyRateLimiterOptions) {
+    super(options);
+    this.header = options.header;
+  }
+
+  protected identity(event: RequestEvent) {
+    if (this.header) return event.request.headers.get(this.header) || null;
+
+    const auth = event.request.headers.get('authorization');
+    const match = auth?.match(/^Bearer\s+(\S+)\s*$/i);
+    return match ? match[1] : null;
+  }
+}
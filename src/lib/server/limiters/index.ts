@@ -7,3 +7,22 @@ export {
   CloudflareIPRateLimiter,
   CloudflareIPUARateLimiter
 } from './cloudflareIpRateLimiter.js';
+export {
+  ProxyIPRateLimiter,
+  ProxyIPUARateLimiter,
+  type ProxyIPRateLimiterOptions
+} from './proxyIpRateLimiter.js';
+export {
+  AllowListPlugin,
+  DenyListPlugin,
+  type ListEntries,
+  type ListPluginOptions,
+  type DenyListPluginOptions
+} from './listPlugins.js';
+export {
+  UserRateLimiter,
+  ApiKeyRateLimiter,
+  type IdentityRateLimiterOptions,
+  type UserRateLimiterOptions,
+  type ApiKeyRateLimiterOptions
+} from './identityRateLimiter.js';
@@ -1,15 +1,20 @@
 import type { RequestEvent } from '@sveltejs/kit';
 import type { RateLimiterPlugin } from './rateLimiterPlugin';
 import type { Rate } from '../rate';
+import { normalizeIP, validateSubnet, type IPSubnetOptions } from '../ip.js';
 
 export class IPRateLimiter implements RateLimiterPlugin {
   readonly rate: Rate | Rate[];
+  private readonly subnet: IPSubnetOptions | undefined;
 
-  constructor(rate: Rate | Rate[]) {
+  constructor(rate: Rate | Rate[], subnet?: IPSubnetOptions) {
     this.rate = rate;
+    if (subnet) validateSubnet(subnet);
+    this.subnet = subnet;
   }
 
   async hash(event: RequestEvent) {
-    return event.getClientAddress();
+    const ip = event.getClientAddress();
+    return this.subnet ? normalizeIP(ip, this.subnet) : ip;
   }
 }
@@ -1,17 +1,22 @@
 import type { Rate } from '../rate.js';
 import type { RateLimiterPlugin } from './rateLimiterPlugin.js';
 import type { RequestEvent } from '@sveltejs/kit';
+import { normalizeIP, validateSubnet, type IPSubnetOptions } from '../ip.js';
 
 export class IPUserAgentRateLimiter implements RateLimiterPlugin {
   readonly rate: Rate | Rate[];
+  private readonly subnet: IPSubnetOptions | undefined;
 
-  constructor(rate: Rate | Rate[]) {
+  constructor(rate: Rate | Rate[], subnet?: IPSubnetOptions) {
     this.rate = rate;
+    if (subnet) validateSubnet(subnet);
+    this.subnet = subnet;
   }
 
   async hash(event: RequestEvent) {
     const ua = event.request.headers.get('user-agent');
     if (!ua) return false;
-    return event.getClientAddress() + ua;
+    const ip = event.getClientAddress();
+    return (this.subnet ? normalizeIP(ip, this.subnet) : ip) + ua;
   }
 }
@@ -0,0 +1,181 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { TTLTime, type Rate, type RateDuration } from '../rate.js';
+import type { RateLimiterPlugin } from './rateLimiterPlugin.js';
+import { cidrMatcher, type IPResolver } from '../ip.js';
+
+export type ListEntries = {
+  /**
+   * IP ranges in CIDR notation, or single addresses.
+   */
+  ips?: string[];
+  /**
+   * User ids, compared to the userId option.
+   */
+  userIds?: string[];
+  /**
+   * Header values by header name, like API keys.
+   */
+  headers?: Record<string, string[]>;
+};
+
+export type ListPluginOptions<Extra = never> = {
+  /**
+   * The list entries, or a function loading them, which will be called again
+   * when the list is older than reloadInterval.
+   */
+  list: ListEntries | (() => ListEntries | Promise<ListEntries>);
+  /**
+   * How often a list function is reloaded, in ms. Default 60 seconds.
+   */
+  reloadInterval?: number;
+  /**
+   * Returns the user id from the extra data. Default: `extraData.userId`
+   */
+  userId?: (extraData: Extra) => string | null | undefined;
+  /**
+   * Resolves the client address, for example with createIPResolver. Default: `event.getClientAddress()`
+   */
+  resolveIP?: IPResolver;
+  /**
+   * The rate decides the call order, like other plugins.
+   * Default `[0, '100ms']`, so the list is checked first.
+   */
+  rate?: Rate;
+  /**
+   * Reason reported when the list limits a request. Default `'allowlist'` or `'denylist'`
+   */
+  id?: string;
+};
+
+export type DenyListPluginOptions<Extra = never> = ListPluginOptions<Extra> & {
+  /**
+   * How long a denied client is told to wait before retrying. Default 1 hour
+   */
+  retryAfter?: RateDuration;
+};
+
+type CompiledList = {
+  ip: (address: string) => boolean;
+  userIds: Set<string>;
+  headers: [string, Set<string>][];
+};
+
+function compile(entries: ListEntries): CompiledList {
+  return {
+    ip: cidrMatcher(entries.ips ?? []),
+    userIds: new Set(entries.userIds),
+    headers: Object.entries(entries.headers ?? {}).map(([name, values]) => [
+      name,
+      new Set(values)
+    ])
+  };
+}
+
+abstract class ListPlugin<Extra> implements RateLimiterPlugin<Extra> {
+  readonly rate: Rate;
+  readonly id: string;
+  private readonly options: ListPluginOptions<Extra>;
+  private list: CompiledList | undefined;
+  private loaded = 0;
+  private loading: Promise<CompiledList> | undefined;
+
+  constructor(options: ListPluginOptions<Extra>, id: string) {
+    this.rate = options.rate ?? [0, '100ms'];
+    this.id = options.id ?? id;
+    this.options = options;
+    if (typeof options.list != 'function') this.list = compile(options.list);
+  }
+
+  /**
+   * Reload the list from its source function.
+   */
+  async reload(): Promise<void> {
+    const source = this.options.list;
+    if (typeof source != 'function') return;
+
+    // Concurrent reloads share the same request
+    this.loading ??= (async () => {
+      try {
+        const list = compile(await source());
+        this.list = list;
+        this.loaded = Date.now();
+        return list;
+      } finally {
+        this.loading = undefined;
+      }
+    })();
+
+    await this.loading;
+  }
+
+  private async currentList() {
+    const interval = this.options.reloadInterval ?? 60000;
+
+    if (!this.list) {
+      await this.reload();
+    } else if (
+      typeof this.options.list == 'function' &&
+      Date.now() - this.loaded >= interval
+    ) {
+      try {
+        await this.reload();
+      } catch (e) {
+        // Keep the previous list if reloading fails
+        console.warn('RateLimiter: Could not reload list.', e);
+      }
+    }
+
+    return this.list as CompiledList;
+  }
+
+  protected async matches(event: RequestEvent, extraData: Extra) {
+    const list = await this.currentList();
+
+    const ip = (this.options.resolveIP ?? ((e) => e.getClientAddress()))(event);
+    if (list.ip(ip)) return true;
+
+    if (list.userIds.size) {
+      const userId = this.options.userId
+        ? this.options.userId(extraData)
+        : (extraData as { userId?: string } | undefined)?.userId;
+      if (userId && list.userIds.has(userId)) return true;
+    }
+
+    return list.headers.some(([name, values]) => {
+      const value = event.request.headers.get(name);
+      return value !== null && values.has(value);
+    });
+  }
+
+  abstract hash(event: RequestEvent, extraData: Extra): Promise<boolean | null>;
+}
+
+/**
+ * Lets matching clients bypass all rates checked after it.
+ */
+export class AllowListPlugin<Extra = never> extends ListPlugin<Extra> {
+  constructor(options: ListPluginOptions<Extra>) {
+    super(options, 'allowlist');
+  }
+
+  async hash(event: RequestEvent, extraData: Extra) {
+    return (await this.matches(event, extraData)) ? true : null;
+  }
+}
+
+/**
+ * Limits all requests from matching clients.
+ */
+export class DenyListPlugin<Extra = never> extends ListPlugin<Extra> {
+  // The rate only decides the call order, so it can't tell when to retry
+  readonly rejectTTL: number;
+
+  constructor(options: DenyListPluginOptions<Extra>) {
+    super(options, 'denylist');
+    this.rejectTTL = TTLTime(options.retryAfter ?? 'h');
+  }
+
+  async hash(event: RequestEvent, extraData: Extra) {
+    return (await this.matches(event, extraData)) ? false : null;
+  }
+}
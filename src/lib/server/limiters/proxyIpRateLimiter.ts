@@ -0,0 +1,55 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { Rate } from '../rate.js';
+import type { RateLimiterPlugin } from './rateLimiterPlugin.js';
+import {
+  createIPResolver,
+  normalizeIP,
+  validateSubnet,
+  type IPResolver,
+  type IPResolverOptions,
+  type IPSubnetOptions
+} from '../ip.js';
+
+export type ProxyIPRateLimiterOptions = IPResolverOptions & {
+  /**
+   * Aggregate the resolved addresses into subnets.
+   */
+  subnet?: IPSubnetOptions;
+};
+
+/**
+ * IP limiter for apps behind proxies, using the forwarding headers
+ * only when the request comes from a trusted proxy.
+ */
+export class ProxyIPRateLimiter implements RateLimiterPlugin {
+  readonly rate: Rate | Rate[];
+  protected readonly resolveIP: IPResolver;
+
+  constructor(rate: Rate | Rate[], options: ProxyIPRateLimiterOptions) {
+    this.rate = rate;
+
+    const resolve = createIPResolver(options);
+    const subnet = options.subnet;
+
+    if (subnet) validateSubnet(subnet);
+    this.resolveIP = subnet
+      ? (event) => normalizeIP(resolve(event), subnet)
+      : resolve;
+  }
+
+  async hash(event: RequestEvent): Promise<string | boolean | null> {
+    return this.resolveIP(event);
+  }
+}
+
+export class ProxyIPUARateLimiter extends ProxyIPRateLimiter {
+  constructor(rate: Rate | Rate[], options: ProxyIPRateLimiterOptions) {
+    super(rate, options);
+  }
+
+  async hash(event: RequestEvent) {
+    const ua = event.request.headers.get('user-agent');
+    if (!ua) return false;
+    return this.resolveIP(event) + ua;
+  }
+}
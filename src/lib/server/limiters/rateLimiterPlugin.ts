@@ -1,10 +1,40 @@
 import type { RequestEvent } from '@sveltejs/kit';
 import type { Rate } from '../rate';
 
+/**
+ * A hash with the cost of the request, overriding the cost of the check,
+ * and the rates to use for the request instead of the plugin rate.
+ */
+export type RateLimiterPluginHash = {
+  hash: string;
+  cost?: number;
+  rate?: Rate | Rate[];
+};
+
 export interface RateLimiterPlugin<Extra = never> {
   hash: (
     event: RequestEvent,
     extraData: Extra
-  ) => string | boolean | null | Promise<string | boolean | null>;
+  ) =>
+    | string
+    | boolean
+    | null
+    | RateLimiterPluginHash
+    | Promise<string | boolean | null | RateLimiterPluginHash>;
+  /**
+   * Like hash, but must not issue any client state, like a new cookie.
+   * Used instead of hash by peek, reset, refund, penalize and block.
+   */
+  peekHash?: RateLimiterPlugin<Extra>['hash'];
   get rate(): Rate | Rate[];
+  /**
+   * A stable id for the plugin, used as the reason when it limits a request,
+   * instead of its index in the sorted plugin list.
+   */
+  readonly id?: string;
+  /**
+   * Time in ms a client must wait after the plugin rejected it by returning false,
+   * instead of the window of the plugin rate.
+   */
+  readonly rejectTTL?: number;
 }
@@ -1,4 +1,55 @@
-export type Rate = [number, RateUnit];
+export const rateAlgorithms = [
+  'fixed-window',
+  'sliding-window-log',
+  'sliding-window-counter',
+  'token-bucket'
+] as const;
+
+export type RateAlgorithm = (typeof rateAlgorithms)[number];
+
+export type RateOptions = {
+  limit: number;
+  unit: RateDuration;
+  /**
+   * Counting algorithm for this rate, overrides the algorithm option of the RateLimiter.
+   */
+  algorithm?: RateAlgorithm;
+  /**
+   * Bucket capacity for the token-bucket algorithm, defaults to limit.
+   * The bucket is refilled with limit tokens per unit.
+   */
+  burst?: number;
+};
+
+export const calendarWindows = ['minute', 'hour', 'day', 'month'] as const;
+
+export type CalendarWindow = (typeof calendarWindows)[number];
+
+export type CalendarRateOptions = {
+  limit: number;
+  /**
+   * A fixed window aligned to calendar boundaries, reset at the start of every minute, hour, day or month.
+   */
+  calendar: CalendarWindow;
+  /**
+   * IANA time zone for the boundaries, like 'Europe/Stockholm'. Defaults to UTC.
+   */
+  timeZone?: string;
+};
+
+export type Rate = [number, RateDuration] | RateOptions | CalendarRateOptions;
+
+/**
+ * Like Rate, but with TTL as a number instead of a string unit
+ */
+export type TTLRate = {
+  limit: number;
+  ttl: number;
+  algorithm: RateAlgorithm;
+  burst?: number;
+  calendar?: CalendarWindow;
+  timeZone?: string;
+};
 
 export type RateUnit =
   | 'ms'
@@ -25,7 +76,46 @@ export type RateUnit =
   | '12h'
   | 'd';
 
-export function TTLTime(unit: RateUnit) {
+type DurationUnit = 'ms' | 's' | 'm' | 'h' | 'd' | 'w';
+
+/**
+ * A rate unit, a duration in ms, or a duration string like `'90s'`, `'7d'` or `'1h30m'`.
+ * The intersection keeps the rate units from being absorbed by the template,
+ * so they are still suggested by autocomplete. `& {}` would be simplified away.
+ */
+export type RateDuration =
+  | RateUnit
+  | number
+  | (`${number}${DurationUnit}${string}` & Record<never, never>);
+
+const durationUnits: Record<DurationUnit, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60000,
+  h: 60 * 60000,
+  d: 24 * 60 * 60000,
+  w: 7 * 24 * 60 * 60000
+};
+
+function parseDuration(duration: string) {
+  const segment = /(\d+(?:\.\d+)?)(ms|s|m|h|d|w)/y;
+  let ttl = 0;
+
+  while (segment.lastIndex < duration.length) {
+    const match = segment.exec(duration);
+    if (!match) return NaN;
+    ttl += Number(match[1]) * durationUnits[match[2] as DurationUnit];
+  }
+
+  return duration.length ? Math.round(ttl) : NaN;
+}
+
+export function TTLTime(unit: RateDuration) {
+  if (typeof unit == 'number') {
+    if (Number.isInteger(unit) && unit > 0) return unit;
+    throw new Error('Invalid duration for TTLTime: ' + unit);
+  }
+
   switch (unit) {
     case 's':
       return 1000;
@@ -74,5 +164,180 @@ export function TTLTime(unit: RateUnit) {
     case 'ms':
       return 1;
   }
+
+  const ttl = parseDuration(unit);
+  if (ttl > 0) return ttl;
+
   throw new Error('Invalid unit for TTLTime: ' + unit);
 }
+
+/**
+ * The number of hits a TTLRate allows before limiting.
+ */
+export function rateCapacity(rate: TTLRate) {
+  return rate.algorithm == 'token-bucket'
+    ? (rate.burst ?? rate.limit)
+    : rate.limit;
+}
+
+// Longest possible window, for ordering and expiry
+const calendarTTL: Record<CalendarWindow, number> = {
+  minute: 60000,
+  hour: 60 * 60000,
+  day: 25 * 60 * 60000,
+  month: 31 * 24 * 60 * 60000
+};
+
+const timeZoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+function timeZoneFormat(timeZone: string) {
+  let format = timeZoneFormats.get(timeZone);
+  if (!format) {
+    try {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+    } catch {
+      throw new Error('Invalid time zone: ' + timeZone);
+    }
+    timeZoneFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * Offset in ms between the wall clock time in the time zone and UTC.
+ */
+function timeZoneOffset(timeZone: string, time: number) {
+  const parts: Record<string, number> = {};
+  for (const part of timeZoneFormat(timeZone).formatToParts(time)) {
+    parts[part.type] = Number(part.value);
+  }
+
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  return wallClock - (time - (time % 1000));
+}
+
+function nextBoundary(window: CalendarWindow, timeZone: string, now: number) {
+  if (timeZone == 'UTC' && window != 'month') {
+    const size =
+      window == 'minute'
+        ? 60000
+        : window == 'hour'
+          ? 60 * 60000
+          : 24 * 60 * 60000;
+    return now - (now % size) + size;
+  }
+
+  const local = new Date(now + timeZoneOffset(timeZone, now));
+  const [year, month, day, hour, minute] = [
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate(),
+    local.getUTCHours(),
+    local.getUTCMinutes()
+  ];
+
+  const next =
+    window == 'minute'
+      ? Date.UTC(year, month, day, hour, minute + 1)
+      : window == 'hour'
+        ? Date.UTC(year, month, day, hour + 1)
+        : window == 'day'
+          ? Date.UTC(year, month, day + 1)
+          : Date.UTC(year, month + 1, 1);
+
+  // Convert the wall clock time back, twice in case of a DST change
+  let boundary = next - timeZoneOffset(timeZone, next);
+  boundary = next - timeZoneOffset(timeZone, boundary);
+
+  return Math.max(boundary, now + 1);
+}
+
+/**
+ * Unix timestamp (ms) when a fixed window starting now ends.
+ * For calendar rates, this is the next calendar boundary.
+ */
+export function rateWindowEnd(rate: TTLRate, now = Date.now()) {
+  return rate.calendar
+    ? nextBoundary(rate.calendar, rate.timeZone ?? 'UTC', now)
+    : now + rate.ttl;
+}
+
+/**
+ * Time in ms until the end of a fixed window starting now.
+ */
+export function rateWindowTTL(rate: TTLRate, now = Date.now()) {
+  return rateWindowEnd(rate, now) - now;
+}
+
+export function rateList(rate: Rate | Rate[]): Rate[] {
+  if (!Array.isArray(rate) || typeof rate[0] == 'number') return [rate as Rate];
+  return rate as Rate[];
+}
+
+export function toTTLRate(
+  rate: Rate,
+  algorithm: RateAlgorithm = 'fixed-window'
+): TTLRate {
+  if ('calendar' in rate) {
+    if (!calendarWindows.includes(rate.calendar)) {
+      throw new Error('Invalid calendar window: ' + rate.calendar);
+    }
+    // Validates the time zone
+    if (rate.timeZone) timeZoneFormat(rate.timeZone);
+
+    return {
+      limit: rate.limit,
+      ttl: calendarTTL[rate.calendar],
+      algorithm: 'fixed-window',
+      calendar: rate.calendar,
+      timeZone: rate.timeZone
+    };
+  }
+
+  const options: RateOptions = Array.isArray(rate)
+    ? { limit: rate[0], unit: rate[1] }
+    : rate;
+
+  const output: TTLRate = {
+    limit: options.limit,
+    ttl: TTLTime(options.unit),
+    algorithm: options.algorithm ?? algorithm
+  };
+
+  if (!rateAlgorithms.includes(output.algorithm)) {
+    throw new Error('Invalid rate algorithm: ' + output.algorithm);
+  }
+
+  if (output.algorithm == 'token-bucket' && !(output.limit > 0)) {
+    throw new Error('The token-bucket algorithm requires a positive limit.');
+  }
+
+  if (options.burst !== undefined) {
+    if (output.algorithm != 'token-bucket') {
+      throw new Error('The burst option requires the token-bucket algorithm.');
+    }
+    if (!(options.burst > 0)) {
+      throw new Error('Invalid burst for token-bucket rate: ' + options.burst);
+    }
+    output.burst = options.burst;
+  }
+
+  return output;
+}
@@ -8,12 +8,60 @@ import type { RequestEvent } from '@sveltejs/kit';
 import { defaultHashFunction, type HashFunction } from './hashFunction.js';
 import { TTLStore } from './stores/ttlStore.js';
 import { type RateLimiterPlugin } from './limiters/rateLimiterPlugin.js';
-import { TTLTime, type Rate } from './rate.js';
-import type { RateLimiterStore } from './stores/rateLimiterStore.js';
+import {
+  rateCapacity,
+  rateList,
+  rateWindowEnd,
+  rateWindowTTL,
+  toTTLRate,
+  TTLTime,
+  type RateAlgorithm,
+  type RateDuration,
+  type Rate,
+  type TTLRate
+} from './rate.js';
+import {
+  blockedCount,
+  type LegacyRateLimiterStore,
+  type RateLimiterStore
+} from './stores/rateLimiterStore.js';
+import { compatibleStore } from './stores/compatibleStore.js';
+import type { IPSubnetOptions } from './ip.js';
+import {
+  emitHook,
+  type RateLimiterHookPayloads,
+  type RateLimiterHooks
+} from './hooks.js';
+import {
+  guardedStore,
+  type StoreFailurePolicy
+} from './stores/guardedStore.js';
+import {
+  CompositeRateLimiter,
+  type CombinedLimiter
+} from './compositeRateLimiter.js';
+import {
+  rateLimitHeaders,
+  type RateLimitHeadersFormat,
+  type RateLimitInfo
+} from './headers.js';
 
 export type RateLimiterOptions = Partial<{
   plugins: RateLimiterPlugin[];
-  store: RateLimiterStore;
+  store: RateLimiterStore | LegacyRateLimiterStore;
+  /**
+   * Allow ('open') or limit ('closed') requests when the store fails, instead of throwing.
+   * The errors are reported to the onStoreError hook.
+   */
+  storeFailure: StoreFailurePolicy;
+  /**
+   * Time in ms before a store operation fails.
+   */
+  storeTimeout: number;
+  /**
+   * Store to use when an operation of the main store fails, like an in-memory TTLStore.
+   */
+  fallbackStore: RateLimiterStore | LegacyRateLimiterStore;
   maxItems: number;
   onLimited: (
     event: RequestEvent,
@@ -38,14 +86,135 @@ export type RateLimiterOptions = Partial<{
   };
   IP: Rate | Rate[];
   IPUA: Rate | Rate[];
+  /**
+   * Aggregate the addresses of the IP and IPUA limiters into subnets,
+   * for example `{ ipv6: 64 }`. Addresses are also canonicalized.
+   */
+  ipSubnet: IPSubnetOptions;
   cookie: CookieRateLimiterOptions;
   hashFunction: HashFunction;
+  /**
+   * Default counting algorithm for the rates, fixed-window if not set.
+   */
+  algorithm: RateAlgorithm;
+  /**
+   * Refund the hits of reserved requests that are settled as successful,
+   * so only failed outcomes count towards the rates.
+   */
+  skipSuccessful: boolean;
+  /**
+   * Block clients that are limited too often, for an escalating duration.
+   * Requires a store that implements the block method.
+   */
+  ban: RateLimiterBanOptions;
+  /**
+   * Hooks for observing the checks, one set or a list of them.
+   */
+  hooks: RateLimiterHooks | RateLimiterHooks[];
 }>;
 
+export type RateLimiterBanOptions = {
+  /**
+   * Number of limited requests within the period that will ban the client.
+   */
+  after: number;
+  /**
+   * Period for counting the limited requests.
+   */
+  within: RateDuration;
+  /**
+   * Ban durations, escalating for every ban. The last one is used for any further bans.
+   */
+  durations: RateDuration[];
+  /**
+   * How long the bans are remembered for the escalation. Default one day.
+   */
+  resetAfter?: RateDuration;
+};
+
+type RateHash = {
+  index: number;
+  hash: string;
+  rate: TTLRate;
+  cost: number;
+};
+
+export type RateLimiterCheckOptions = {
+  /**
+   * Number of hits the request counts as, default 1. Requires a weighted store if not 1.
+   */
+  cost?: number;
+  /**
+   * Include the status of every evaluated plugin and rate in the check result.
+   */
+  verbose?: boolean;
+};
+
+/**
+ * 'IP', 'IPUA', 'cookie', the id of a plugin, or the index of a plugin without an id.
+ */
+export type RateLimitReason = 'IP' | 'IPUA' | 'cookie' | number | (string & {});
+
+/**
+ * The status of a plugin rate in a verbose check.
+ */
+export type RateCheckDetail = {
+  /**
+   * The id of the plugin, 'IP', 'IPUA', 'cookie', or the class name of the plugin.
+   */
+  plugin: string;
+  rate: TTLRate;
+  /**
+   * - `counted` - The hit was counted within the rate.
+   * - `limited` - The rate was exceeded.
+   * - `skipped` - The plugin returned null.
+   * - `bypassed` - The plugin returned true.
+   * - `rejected` - The plugin returned false.
+   */
+  result: 'counted' | 'limited' | 'skipped' | 'bypassed' | 'rejected';
+  count?: number;
+  limit?: number;
+  remaining?: number;
+  /**
+   * Unix timestamp (ms) when the rate resets.
+   */
+  resetAt?: number;
+};
+
 /**
- * Like Rate, but with TTL as a number instead of a string unit
+ * The check options are always the third argument, after the extra data,
+ * which is undefined for limiters without extra data.
  */
-type TTLRate = [number, number];
+export type RateLimiterCheckArgs<Extra> = [Extra] extends [never]
+  ? [extraData?: undefined, options?: RateLimiterCheckOptions]
+  : [extraData?: Extra, options?: RateLimiterCheckOptions];
+
+export type RateLimitTicket = {
+  /**
+   * Keep the hits counted by the reservation.
+   */
+  commit: () => Promise<void>;
+  /**
+   * Refund the hits counted by the reservation.
+   */
+  cancel: () => Promise<void>;
+  /**
+   * Cancel the reservation if successful and the skipSuccessful option is set, otherwise commit it.
+   */
+  settle: (success: boolean) => Promise<void>;
+};
+
+export type RateStatus = {
+  plugin: RateLimitReason;
+  rate: TTLRate;
+  count: number;
+  limit: number;
+  remaining: number;
+  /**
+   * Unix timestamp (ms) when the rate resets.
+   */
+  resetAt: number;
+};
 
 export class RateLimiter<Extra = never> {
   private readonly store: RateLimiterStore;
@@ -54,9 +223,31 @@ export class RateLimiter<Extra = never> {
     limiter: RateLimiterPlugin;
   }[];
   private readonly onLimited: RateLimiterOptions['onLimited'] | undefined;
+  private readonly hooks: RateLimiterHooks[];
+  private readonly algorithm: RateAlgorithm | undefined;
+  private readonly ban:
+    | {
+        after: number;
+        within: number;
+        durations: number[];
+        resetAfter: number;
+      }
+    | undefined;
   private readonly hashFunction: HashFunction;
+  private readonly rateLimitInfos = new WeakMap<RequestEvent, RateLimitInfo>();
+  private readonly countedHits = new WeakMap<RequestEvent, RateHash[]>();
+  private readonly unmatched = new WeakSet<RequestEvent>();
+
+  /**
+   * Set when the store returns only a count, so the reset times are estimated from the ttl.
+   */
+  protected countOnlyStore = false;
 
   readonly cookieLimiter: CookieRateLimiter | undefined;
+  /**
+   * If reserved hits are refunded when settled as successful.
+   */
+  readonly skipSuccessful: boolean;
 
   /**
    * Check if a request event is rate limited.
@@ -64,7 +255,11 @@ export class RateLimiter<Extra = never> {
    * @returns {Promise<boolean>} true if request is limited, false otherwise
    */
   async isLimited(
-    event: [Extra] extends [never] ? RequestEvent : { missing_extraData: Extra }
+    event: [Extra] extends [never]
+      ? RequestEvent
+      : { missing_extraData: Extra },
+    extraData?: undefined,
+    options?: RateLimiterCheckOptions
   ): Promise<boolean>;
 
   /**
@@ -72,14 +267,73 @@ export class RateLimiter<Extra = never> {
    * @param {RequestEvent} event
    * @returns {Promise<boolean>} true if request is limited, false otherwise
    */
-  async isLimited(event: RequestEvent, extraData: Extra): Promise<boolean>;
+  async isLimited(
+    event: RequestEvent,
+    extraData: Extra,
+    options?: RateLimiterCheckOptions
+  ): Promise<boolean>;
 
-  async isLimited(event: unknown, extraData?: unknown): Promise<boolean> {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return (await this._isLimited(event as RequestEvent, extraData as any))
+  async isLimited(event: unknown, ...args: unknown[]): Promise<boolean> {
+    const { extraData, cost } = RateLimiter.checkArgs<Extra>(args);
+    return (await this._isLimited(event as RequestEvent, extraData, cost))
       .limited;
   }
 
+  /**
+   * Separates the extra data and the options of the check arguments.
+   */
+  protected static checkArgs<Extra>(args: unknown[]) {
+    const extraData = args[0] as Extra;
+    const options = args[1] as RateLimiterCheckOptions | undefined;
+
+    return {
+      extraData,
+      cost: options?.cost ?? 1,
+      verbose: !!options?.verbose
+    };
+  }
+
+  /**
+   * Combine limiters into one, limiting a request if any of them limits it.
+   * All limiters are evaluated, and every triggered limiter is reported.
+   */
+  static all<Extra = never>(
+    limiters: CombinedLimiter<Extra>[]
+  ): CompositeRateLimiter<Extra> {
+    return new CompositeRateLimiter('all', limiters, RateLimiter.matched);
+  }
+
+  /**
+   * Combine limiters into one, limiting a request only if all of them limit it.
+   * Evaluation stops at the first limiter allowing the request.
+   */
+  static any<Extra = never>(
+    limiters: CombinedLimiter<Extra>[]
+  ): CompositeRateLimiter<Extra> {
+    return new CompositeRateLimiter('any', limiters, RateLimiter.matched);
+  }
+
+  /**
+   * Combine limiters into one, where the first limiter with a plugin matching
+   * the request decides, so the other limiters won't count it.
+   * If no limiter matches, the last one decides.
+   */
+  static first<Extra = never>(
+    limiters: CombinedLimiter<Extra>[]
+  ): CompositeRateLimiter<Extra> {
+    return new CompositeRateLimiter('first', limiters, RateLimiter.matched);
+  }
+
+  /**
+   * If any plugin returned a hash or a decision in the latest check of the event.
+   */
+  private static matched<Extra>(
+    limiter: RateLimiter<Extra>,
+    event: RequestEvent
+  ) {
+    return !limiter.unmatched.has(event);
+  }
+
   /**
    * Clear all rate limits.
    */
@@ -90,23 +344,25 @@ export class RateLimiter<Extra = never> {
   /**
    * Check if a request event is rate limited.
    * @param {RequestEvent} event
-   * @returns {Promise<limited: boolean, reason: 'IP' | 'IPUA' | 'cookie' | number>} Rate limit status for the event.
+   * @returns {Promise<limited: boolean, reason: RateLimitReason>} Rate limit status for the event.
    */
   async check(
     event: RequestEvent,
-    extraData?: Extra
+    ...args: RateLimiterCheckArgs<Extra>
   ): Promise<
-    | { limited: false }
+    | { limited: false; rates?: RateCheckDetail[] }
     | {
         limited: true;
-        reason: 'IP' | 'IPUA' | 'cookie' | number;
+        reason: RateLimitReason;
+        rates?: RateCheckDetail[];
       }
   > {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await this._isLimited(event, extraData as any);
+    const { extraData, cost, verbose } = RateLimiter.checkArgs<Extra>(args);
+    const rates = verbose ? [] : undefined;
+    const result = await this._isLimited(event, extraData, cost, rates);
 
-    if (!result.limited) return { limited: false };
-    return { limited: true, reason: result.reason };
+    if (!result.limited) return { limited: false, ...(rates && { rates }) };
+    return { limited: true, reason: result.reason, ...(rates && { rates }) };
   }
 
   /**
@@ -116,101 +372,642 @@ export class RateLimiter<Extra = never> {
    */
   protected async _isLimited(
     event: RequestEvent,
-    extraData: Extra
+    extraData: Extra,
+    cost = 1,
+    details?: RateCheckDetail[]
+  ) {
+    if (!this.hooks.length) {
+      return this.evaluate(event, extraData, cost, details);
+    }
+
+    const started = performance.now();
+    const rates = details ?? [];
+    const result = await this.evaluate(event, extraData, cost, rates);
+    const duration = performance.now() - started;
+
+    await this.emit('onCheck', {
+      event,
+      limited: result.limited,
+      reason: result.limited ? result.reason : undefined,
+      cost,
+      duration,
+      rates
+    });
+
+    if (result.limited) {
+      await this.emit('onLimited', {
+        event,
+        reason: result.reason,
+        cost,
+        trigger: rates.at(-1),
+        rates
+      });
+    } else {
+      const bypass = rates.find((r) => r.result == 'bypassed');
+      if (bypass) {
+        await this.emit('onBypass', {
+          event,
+          plugin: bypass.plugin,
+          rate: bypass.rate
+        });
+      }
+      await this.emit('onAllowed', { event, cost, rates });
+    }
+
+    return result;
+  }
+
+  private emit<K extends keyof RateLimiterHooks>(
+    name: K,
+    payload: RateLimiterHookPayloads[K]
+  ) {
+    return emitHook(this.hooks, name, payload);
+  }
+
+  private async evaluate(
+    event: RequestEvent,
+    extraData: Extra,
+    cost: number,
+    details: RateCheckDetail[] | undefined
   ): Promise<
     | { limited: false; hash: string | null; ttl: number }
     | {
         limited: true;
         hash: string | null;
         ttl: number;
-        reason: 'IP' | 'IPUA' | 'cookie' | number;
+        reason: RateLimitReason;
       }
   > {
     let limited: boolean | undefined = undefined;
+    let info: RateLimitInfo | undefined = undefined;
+    let unmatched = false;
+    const counted: RateHash[] = [];
 
-    for (let i = 0; i < this.plugins.length; i++) {
-      const plugin = this.plugins[i];
-      const rate = plugin.rate;
-      const id = await plugin.limiter.hash(event, extraData as never);
-
-      if (id === false) {
-        if (this.onLimited) {
-          const status = await this.onLimited(event, 'rejected');
-          if (status === true)
-            return { limited: false, hash: null, ttl: rate[1] };
+    RateLimiter.validateCost(cost);
+    if (cost != 1) this.requireWeighted('weighted requests');
+
+    await this.store.prepare?.(event);
+
+    try {
+      // Plugins that returned their own rates are only checked once
+      const dynamic = new Set<RateLimiterPlugin>();
+
+      for (let i = 0; i < this.plugins.length; i++) {
+        const plugin = this.plugins[i];
+        if (dynamic.has(plugin.limiter)) continue;
+
+        const rate = plugin.rate;
+        const output = await plugin.limiter.hash(event, extraData as never);
+        const id = typeof output == 'object' && output ? output.hash : output;
+        const name = this.pluginName(plugin.limiter, i);
+
+        if (id === false) {
+          const rejectTTL = plugin.limiter.rejectTTL;
+          const rejected = rejectTTL
+            ? { ...rate, ttl: rejectTTL, calendar: undefined }
+            : rate;
+
+          details?.push({ plugin: name, rate, result: 'rejected' });
+          info = RateLimiter.exhausted(rejected);
+          if (this.onLimited) {
+            const status = await this.onLimited(event, 'rejected');
+            if (status === true) {
+              info.limited = false;
+              return { limited: false, hash: null, ttl: rate.ttl };
+            }
+          }
+          await this.rollback(counted);
+          return {
+            limited: true,
+            hash: null,
+            ttl: rateWindowTTL(rejected),
+            reason: this.limitReason(plugin.limiter, i)
+          };
+        } else if (id === null) {
+          details?.push({ plugin: name, rate, result: 'skipped' });
+          if (limited === undefined) limited = true;
+          continue;
+        } else {
+          limited = false;
+        }
+
+        if (!id) {
+          throw new Error(
+            'Empty hash returned from rate limiter ' + plugin.constructor.name
+          );
+        }
+
+        if (id === true) {
+          details?.push({ plugin: name, rate, result: 'bypassed' });
+          info = undefined;
+          return { limited: false, hash: null, ttl: rate.ttl };
         }
+
+        const hitCost =
+          typeof output == 'object' && output?.cost !== undefined
+            ? output.cost
+            : cost;
+
+        if (hitCost !== cost) {
+          RateLimiter.validateCost(hitCost);
+          if (hitCost != 1) this.requireWeighted('weighted requests');
+        }
+
+        // Rates returned with the hash replace the plugin rates for this request
+        const requestRate =
+          typeof output == 'object' ? output?.rate : undefined;
+
+        if (requestRate) dynamic.add(plugin.limiter);
+
+        for (const { hash, rate } of await this.hashRates(i, id, requestRate)) {
+          // Calendar windows end at the next boundary
+          const ttl = rateWindowTTL(rate);
+          const result =
+            hitCost == 1
+              ? await this.store.add(hash, ttl, rate)
+              : await this.store.add(hash, ttl, rate, hitCost);
+
+          const capacity = rateCapacity(rate);
+          const { count, resetAt } = result;
+
+          const status: RateLimitInfo = {
+            limited: count > capacity,
+            limit: capacity,
+            remaining: Math.max(0, capacity - count),
+            resetAt,
+            window: rate.ttl
+          };
+
+          details?.push({
+            plugin: name,
+            rate,
+            result: status.limited ? 'limited' : 'counted',
+            count,
+            limit: capacity,
+            remaining: status.remaining,
+            resetAt
+          });
+
+          // Report the rate closest to its limit
+          if (!info || status.limited || status.remaining < info.remaining) {
+            info = status;
+          }
+
+          if (!status.limited) {
+            counted.push({ index: i, hash, rate, cost: hitCost });
+          } else {
+            if (this.onLimited) {
+              const status = await this.onLimited(event, 'rate');
+              if (status === true) {
+                info.limited = false;
+                return { limited: false, hash, ttl };
+              }
+            }
+            // No partial consumption of the rates when the request is rejected
+            await this.rollback(counted);
+
+            // Requests limited by a block don't count as violations
+            const banned =
+              count < blockedCount ? await this.violation(hash) : 0;
+            if (banned) {
+              info.resetAt = Math.max(info.resetAt, Date.now() + banned);
+            }
+
+            return {
+              limited: true,
+              hash,
+              ttl: Math.max(ttl, banned),
+              reason: this.limitReason(plugin.limiter, i)
+            };
+          }
+        }
+      }
+
+      const last = this.plugins[this.plugins.length - 1];
+
+      if (limited) {
+        // No plugin returned a hash or a decision for the request
+        unmatched = true;
+        info = RateLimiter.exhausted(last.rate);
         return {
           limited: true,
           hash: null,
-          ttl: rate[1],
-          reason: this.limitReason(plugin.limiter, i)
+          ttl: rateWindowTTL(last.rate),
+          reason: this.limitReason(last.limiter, this.plugins.length - 1)
         };
-      } else if (id === null) {
-        if (limited === undefined) limited = true;
-        continue;
-      } else {
-        limited = false;
       }
 
-      if (!id) {
+      return {
+        limited: false,
+        hash: null,
+        ttl: last.rate.ttl
+      };
+    } finally {
+      if (info) this.rateLimitInfos.set(event, info);
+      else this.rateLimitInfos.delete(event);
+      this.countedHits.set(event, counted);
+      if (unmatched) this.unmatched.add(event);
+      else this.unmatched.delete(event);
+    }
+  }
+
+  /**
+   * Store hashes for the rates of a plugin. Rates returned with the plugin hash
+   * replace the plugin rate, and are keyed by window and algorithm, since
+   * they can vary between requests.
+   */
+  private async hashRates(
+    index: number,
+    id: string,
+    requestRate: Rate | Rate[] | undefined
+  ) {
+    if (!requestRate) {
+      return [
+        { hash: await this.rateHash(index, id), rate: this.plugins[index].rate }
+      ];
+    }
+
+    const rates = rateList(requestRate).map((r) =>
+      toTTLRate(r, this.algorithm)
+    );
+    if (!rates.length) throw new Error('Empty rate returned from limiter');
+
+    this.requireAlgorithms(rates);
+
+    return Promise.all(
+      rates.sort(RateLimiter.byRate).map(async (rate) => ({
+        hash: await this.rateHash(
+          `${index}/${RateLimiter.rateKey(rate)}/${rate.algorithm}`,
+          id
+        ),
+        rate
+      }))
+    );
+  }
+
+  private static rateKey(rate: TTLRate) {
+    return rate.calendar
+      ? `${rate.calendar}/${rate.timeZone ?? 'UTC'}`
+      : rate.ttl;
+  }
+
+  private static byRate(a: TTLRate, b: TTLRate) {
+    const diff = a.ttl - b.ttl;
+    return diff == 0 ? a.limit - b.limit : diff;
+  }
+
+  private requireAlgorithms(rates: TTLRate[]) {
+    const algorithms = this.store.algorithms ?? ['fixed-window'];
+    for (const rate of rates) {
+      if (!algorithms.includes(rate.algorithm)) {
         throw new Error(
-          'Empty hash returned from rate limiter ' + plugin.constructor.name
+          `The "${rate.algorithm}" algorithm is not supported by the RateLimiter store.`
         );
       }
+    }
+  }
+
+  private static validateCost(cost: number) {
+    if (!Number.isInteger(cost) || cost < 1) {
+      throw new Error(`Invalid cost ${cost}, must be a positive integer.`);
+    }
+  }
+
+  /**
+   * Refund the hits counted so far by a rejected request. Stores that
+   * aren't weighted can't refund, so the other rates keep these hits.
+   */
+  private async rollback(counted: RateHash[]) {
+    if (!this.store.weighted) return;
+    for (const { hash, rate, cost } of counted.splice(0)) {
+      await this.store.add(hash, rateWindowTTL(rate), rate, -cost);
+    }
+  }
+
+  /**
+   * Counts a limited request for the ban policy, blocking the hash when there
+   * are too many of them. Returns the ban duration, or 0 if not banned.
+   */
+  private async violation(hash: string) {
+    const ban = this.ban;
+    if (!ban) return 0;
+
+    const counter = async (key: string, ttl: number) => {
+      const result = await this.store.add(key, ttl, {
+        limit: Number.MAX_SAFE_INTEGER,
+        ttl,
+        algorithm: 'fixed-window'
+      });
+      return result.count;
+    };
+
+    if ((await counter(hash + '#violations', ban.within)) < ban.after) return 0;
+
+    // Every ban within the resetAfter period escalates the duration
+    const bans = await counter(hash + '#bans', ban.resetAfter);
+    const duration = ban.durations[Math.min(bans, ban.durations.length) - 1];
+
+    await this.store.block?.(hash, duration);
+    await this.store.delete?.(hash + '#violations');
+
+    return duration;
+  }
+
+  private async rateHash(index: number | string, id: string) {
+    // Add the plugin index to the hash, so it differs between limiters with multiple rates
+    return index.toString() + (await this.hashFunction(id));
+  }
+
+  /**
+   * Hashes for every rate of the plugins that return a hash for the event.
+   * A string target is used as the identifier for all plugins.
+   */
+  protected async targetHashes(
+    target: RequestEvent | string,
+    extraData?: Extra
+  ): Promise<RateHash[]> {
+    const output: RateHash[] = [];
+
+    if (typeof target != 'string') await this.store.prepare?.(target);
 
-      if (id === true) {
-        return { limited: false, hash: null, ttl: rate[1] };
+    const dynamic = new Set<RateLimiterPlugin>();
+
+    for (let i = 0; i < this.plugins.length; i++) {
+      const { limiter } = this.plugins[i];
+      if (dynamic.has(limiter)) continue;
+
+      // Looking up a client shouldn't issue it a cookie or other state
+      const result =
+        typeof target == 'string'
+          ? target
+          : limiter.peekHash
+            ? await limiter.peekHash(target, extraData as never)
+            : await limiter.hash(target, extraData as never);
+      const id = typeof result == 'object' && result ? result.hash : result;
+      if (typeof id != 'string' || !id) continue;
+
+      const requestRate = typeof result == 'object' ? result?.rate : undefined;
+      if (requestRate) dynamic.add(limiter);
+
+      for (const { hash, rate } of await this.hashRates(i, id, requestRate)) {
+        output.push({ index: i, hash, rate, cost: 1 });
       }
+    }
 
-      // Add the plugin index to the hash, so it differs between limiters with multiple rates
-      const hash = i.toString() + (await this.hashFunction(id));
-      const currentRate = await this.store.add(hash, rate[1]);
+    return output;
+  }
 
-      if (currentRate > rate[0]) {
-        if (this.onLimited) {
-          const status = await this.onLimited(event, 'rate');
-          if (status === true) return { limited: false, hash, ttl: rate[1] };
-        }
-        return {
-          limited: true,
-          hash,
-          ttl: rate[1],
-          reason: this.limitReason(plugin.limiter, i)
-        };
+  /**
+   * Get the current status for every rate of the plugins that return a hash for the event, without counting it as a hit.
+   * Requires a store that implements the get method.
+   * @param {RequestEvent} event
+   * @returns {Promise<RateStatus[]>} Status for every rate, in the same order as they are checked.
+   */
+  async peek(event: RequestEvent, extraData?: Extra): Promise<RateStatus[]> {
+    const get = this.store.get?.bind(this.store);
+    if (!get) {
+      throw new Error('The RateLimiter store does not support peek.');
+    }
+
+    const output: RateStatus[] = [];
+
+    for (const { index, hash, rate } of await this.targetHashes(
+      event,
+      extraData
+    )) {
+      const { count, resetAt } = await get(hash, rateWindowTTL(rate), rate);
+      const capacity = rateCapacity(rate);
+
+      output.push({
+        plugin: this.limitReason(this.plugins[index].limiter, index),
+        rate,
+        count,
+        limit: capacity,
+        remaining: Math.max(0, capacity - count),
+        resetAt
+      });
+    }
+
+    return output;
+  }
+
+  /**
+   * Reset the limits for a single client, or identifier.
+   * Requires a store that implements the delete method.
+   * @param {RequestEvent | string} target The event, or an identifier that will be used for all plugins.
+   */
+  async reset(target: RequestEvent | string, extraData?: Extra) {
+    const remove = this.store.delete?.bind(this.store);
+    if (!remove) {
+      throw new Error('The RateLimiter store does not support reset.');
+    }
+
+    for (const { hash } of await this.targetHashes(target, extraData)) {
+      await remove(hash);
+      if (this.ban) {
+        await remove(hash + '#violations');
+        await remove(hash + '#bans');
       }
+      await this.resetHash?.(hash);
     }
+  }
 
-    if (limited) {
-      return {
-        limited: true,
-        hash: null,
-        ttl: this.plugins[this.plugins.length - 1].rate[1],
-        reason: this.limitReason(
-          this.plugins[this.plugins.length - 1].limiter,
-          this.plugins.length - 1
-        )
-      };
+  /**
+   * Called by reset for every hash of the target, to reset state kept by subclasses.
+   */
+  protected resetHash?(hash: string): Promise<void>;
+
+  /**
+   * Refund hits for a client. For an event that has been checked,
+   * only the rates that counted the hit are refunded.
+   * Requires a weighted store.
+   * @param {RequestEvent | string} target The event, or an identifier that will be used for all plugins.
+   * @param {number} hits Number of hits to refund, default the cost of the checked event, or 1.
+   */
+  async refund(
+    target: RequestEvent | string,
+    hits?: number,
+    extraData?: Extra
+  ) {
+    this.requireWeighted('refund');
+
+    const counted =
+      typeof target == 'string' ? undefined : this.countedHits.get(target);
+
+    if (counted) this.countedHits.set(target as RequestEvent, []);
+
+    for (const { hash, rate, cost } of counted ??
+      (await this.targetHashes(target, extraData))) {
+      await this.store.add(hash, rateWindowTTL(rate), rate, -(hits ?? cost));
+    }
+  }
+
+  /**
+   * Add penalty hits for a client, up to the limit of each rate.
+   * Requires a weighted store that implements the get method.
+   * @param {RequestEvent | string} target The event, or an identifier that will be used for all plugins.
+   * @param {number} hits Number of penalty hits.
+   */
+  async penalize(
+    target: RequestEvent | string,
+    hits: number,
+    extraData?: Extra
+  ) {
+    this.requireWeighted('penalize');
+    const get = this.store.get?.bind(this.store);
+    if (!get) {
+      throw new Error('The RateLimiter store does not support penalize.');
+    }
+
+    for (const { hash, rate } of await this.targetHashes(target, extraData)) {
+      // Some algorithms won't count hits above the limit
+      const ttl = rateWindowTTL(rate);
+      const { count } = await get(hash, ttl, rate);
+      const cost = Math.min(hits, rateCapacity(rate) - count);
+      if (cost > 0) await this.store.add(hash, ttl, rate, cost);
+    }
+  }
+
+  /**
+   * Block a client for a duration, limiting all its requests until then.
+   * Requires a store that implements the block method.
+   * @param {RequestEvent | string} target The event, or an identifier that will be used for all plugins.
+   * @param {RateDuration} duration Duration in ms, a rate unit or a duration string.
+   */
+  async block(
+    target: RequestEvent | string,
+    duration: RateDuration,
+    extraData?: Extra
+  ) {
+    const block = this.store.block?.bind(this.store);
+    if (!block) {
+      throw new Error('The RateLimiter store does not support block.');
+    }
+
+    const ttl = TTLTime(duration);
+    for (const { hash } of await this.targetHashes(target, extraData)) {
+      await block(hash, ttl);
     }
+  }
+
+  /**
+   * Check if a request event is rate limited, and reserve the counted hits until
+   * the returned ticket is committed or cancelled. Requires a weighted store.
+   * @param {RequestEvent} event
+   * @returns The same status as check, with commit, cancel and settle methods.
+   */
+  async reserve(
+    event: RequestEvent,
+    ...args: RateLimiterCheckArgs<Extra>
+  ): Promise<Awaited<ReturnType<this['check']>> & RateLimitTicket> {
+    this.requireWeighted('reserve');
+
+    const status = await this.check(event, ...args);
+
+    // The ticket takes over the hits, so they won't be refunded twice
+    const counted = this.countedHits.get(event) ?? [];
+    this.countedHits.set(event, []);
+
+    let settled = false;
+
+    const commit = async () => {
+      settled = true;
+    };
+
+    const cancel = async () => {
+      if (settled) return;
+      settled = true;
+      for (const { hash, rate, cost } of counted) {
+        await this.store.add(hash, rateWindowTTL(rate), rate, -cost);
+      }
+    };
+
+    const settle = (success: boolean) =>
+      success && this.skipSuccessful ? cancel() : commit();
 
+    return { ...status, commit, cancel, settle } as Awaited<
+      ReturnType<this['check']>
+    > &
+      RateLimitTicket;
+  }
+
+  private requireWeighted(operation: string) {
+    if (!this.store.weighted) {
+      throw new Error(
+        `The RateLimiter store does not support ${operation}, it must be weighted.`
+      );
+    }
+  }
+
+  private static exhausted(rate: TTLRate): RateLimitInfo {
     return {
-      limited: false,
-      hash: null,
-      ttl: this.plugins[this.plugins.length - 1].rate[1]
+      limited: true,
+      limit: rateCapacity(rate),
+      remaining: 0,
+      resetAt: rateWindowEnd(rate),
+      window: rate.ttl
     };
   }
 
+  /**
+   * Rate limit status of the most restrictive rate, from the latest check of the event.
+   * @param {RequestEvent} event
+   * @returns {RateLimitInfo | undefined} The status, or undefined if the event hasn't been checked or the limiter was bypassed.
+   */
+  rateLimitInfo(event: RequestEvent): RateLimitInfo | undefined {
+    return this.rateLimitInfos.get(event);
+  }
+
+  /**
+   * Set RateLimit headers, and Retry-After if limited, with event.setHeaders, based on the latest check of the event.
+   * Since headers can only be set once, call this at most once per request.
+   * @param {RequestEvent} event
+   * @param {RateLimitHeadersFormat} format 'draft-7' (default) or 'legacy' (X-RateLimit-*)
+   */
+  setRateLimitHeaders(
+    event: RequestEvent,
+    format: RateLimitHeadersFormat = 'draft-7'
+  ): void {
+    const info = this.rateLimitInfo(event);
+    if (info) event.setHeaders(rateLimitHeaders(info, format));
+  }
+
   protected limitReason(
     plugin: RateLimiterPlugin,
     index: number
-  ): 'IP' | 'IPUA' | 'cookie' | number {
+  ): RateLimitReason {
+    if (plugin.id !== undefined) return plugin.id;
     if (plugin instanceof IPRateLimiter) return 'IP';
     if (plugin instanceof IPUserAgentRateLimiter) return 'IPUA';
     if (plugin instanceof CookieRateLimiter) return 'cookie';
     return index;
   }
 
+  private pluginName(plugin: RateLimiterPlugin, index: number) {
+    const reason = this.limitReason(plugin, index);
+    return typeof reason == 'string' ? reason : plugin.constructor.name;
+  }
+
   constructor(options: RateLimiterOptions = {}) {
     this.onLimited = options.onLimited;
+    this.hooks = options.hooks ? [options.hooks].flat() : [];
+
+    if (options.ban) {
+      const { after, within, durations, resetAfter } = options.ban;
+      if (!Number.isInteger(after) || after < 1) {
+        throw new Error(`Invalid ban option "after": ${after}`);
+      }
+      if (!durations.length) throw new Error('No ban durations set.');
+
+      this.ban = {
+        after,
+        within: TTLTime(within),
+        durations: durations.map(TTLTime),
+        resetAfter: TTLTime(resetAfter ?? 'd')
+      };
+    }
+    this.skipSuccessful = options.skipSuccessful ?? false;
+    this.algorithm = options.algorithm;
     this.hashFunction = options.hashFunction ?? defaultHashFunction;
 
     if (!this.hashFunction) {
@@ -222,13 +1019,11 @@ export class RateLimiter<Extra = never> {
     //#region Plugin setup
 
     function mapPluginRates(limiter: RateLimiterPlugin) {
-      if (!limiter.rate.length)
+      const pluginRates = rateList(limiter.rate);
+      if (!pluginRates.length)
         throw new Error(`Empty rate for limiter ${limiter.constructor.name}`);
-      const pluginRates = (
-        Array.isArray(limiter.rate[0]) ? limiter.rate : [limiter.rate]
-      ) as Rate[];
       return pluginRates.map((rate) => ({
-        rate: [rate[0], TTLTime(rate[1])] as const satisfies TTLRate,
+        rate: toTTLRate(rate, options.algorithm),
         limiter
       }));
     }
@@ -238,14 +1033,14 @@ export class RateLimiter<Extra = never> {
     const IPRates = options.IP ?? options.rates?.IP;
     if (IPRates) {
       this.plugins = this.plugins.concat(
-        mapPluginRates(new IPRateLimiter(IPRates))
+        mapPluginRates(new IPRateLimiter(IPRates, options.ipSubnet))
       );
     }
 
     const IPUARates = options.IPUA ?? options.rates?.IPUA;
     if (IPUARates) {
       this.plugins = this.plugins.concat(
-        mapPluginRates(new IPUserAgentRateLimiter(IPUARates))
+        mapPluginRates(new IPUserAgentRateLimiter(IPUARates, options.ipSubnet))
       );
     }
 
@@ -255,6 +1050,13 @@ export class RateLimiter<Extra = never> {
         mapPluginRates(
           (this.cookieLimiter = new CookieRateLimiter({
             hashFunction: this.hashFunction,
+            ...(this.hooks.length && {
+              onPreflightIssued: (event: RequestEvent) =>
+                this.emit('onPreflightIssued', {
+                  event,
+                  cookie: cookieRates.name
+                })
+            }),
             ...cookieRates
           }))
         )
@@ -266,15 +1068,12 @@ export class RateLimiter<Extra = never> {
     }
 
     // Sort plugins by rate, if early cancelling
-    this.plugins.sort((a, b) => {
-      const diff = a.rate[1] - b.rate[1];
-      return diff == 0 ? a.rate[0] - b.rate[0] : diff;
-    });
+    this.plugins.sort((a, b) => RateLimiter.byRate(a.rate, b.rate));
 
     //#endregion
 
     const maxTTL = this.plugins.reduce((acc, plugin) => {
-      const rate = plugin.rate[1];
+      const rate = plugin.rate.ttl;
       if (rate == 1) {
         console.warn(
           'RateLimiter: The "ms" unit is not reliable due to OS timing issues.'
@@ -283,6 +1082,38 @@ export class RateLimiter<Extra = never> {
       return Math.max(rate, acc);
     }, 0);
 
-    this.store = options.store ?? new TTLStore(maxTTL, options.maxItems);
+    this.store = options.store
+      ? compatibleStore(options.store, () => (this.countOnlyStore = true))
+      : new TTLStore(maxTTL, options.maxItems);
+
+    const reportErrors = this.hooks.some((hooks) => hooks.onStoreError);
+
+    if (
+      reportErrors ||
+      options.storeFailure ||
+      options.storeTimeout ||
+      options.fallbackStore
+    ) {
+      this.store = guardedStore(this.store, {
+        onError: reportErrors
+          ? (payload) => this.emit('onStoreError', payload)
+          : async ({ error }) =>
+              console.warn('RateLimiter: Store operation failed.', error),
+        failure: options.storeFailure,
+        timeout: options.storeTimeout,
+        fallback:
+          options.fallbackStore && compatibleStore(options.fallbackStore)
+      });
+    }
+
+    if (this.skipSuccessful) this.requireWeighted('skipSuccessful');
+
+    if (this.ban && !this.store.block) {
+      throw new Error(
+        'The RateLimiter store does not support ban, it must implement block.'
+      );
+    }
+
+    this.requireAlgorithms(this.plugins.map((plugin) => plugin.rate));
   }
 }
@@ -1,17 +1,36 @@
-import { type RateLimiterStore } from './stores/index.js';
+import {
+  RetryAfterStore,
+  type LegacyRateLimiterStore,
+  type RateLimiterStore
+} from './stores/index.js';
 import type { RequestEvent } from '@sveltejs/kit';
-import { RetryAfterStore } from './stores/retryAfterStore.js';
-import { RateLimiter, type RateLimiterOptions } from './rateLimiter.js';
+import {
+  RateLimiter,
+  type RateCheckDetail,
+  type RateLimiterCheckArgs,
+  type RateLimiterOptions,
+  type RateLimitReason
+} from './rateLimiter.js';
 
 export class RetryAfterRateLimiter<Extra = never> extends RateLimiter<Extra> {
-  private readonly retryAfter: RateLimiterStore;
+  private readonly retryAfter:
+    | RateLimiterStore
+    | LegacyRateLimiterStore
+    | undefined;
+  // For stores returning only a count, which don't know when they reset
+  private readonly countOnlyRetryAfter: RetryAfterStore;
 
+  /**
+   * @param {RateLimiterOptions} options
+   * @param retryAfterStore Deprecated, the retry time is calculated from the reset time of the limiter store.
+   */
   constructor(
     options: RateLimiterOptions = {},
-    retryAfterStore?: RateLimiterStore
+    retryAfterStore?: RateLimiterStore | LegacyRateLimiterStore
   ) {
     super(options);
-    this.retryAfter = retryAfterStore ?? new RetryAfterStore();
+    this.retryAfter = retryAfterStore;
+    this.countOnlyRetryAfter = new RetryAfterStore(options.maxItems);
   }
 
   private static toSeconds(rateMs: number) {
@@ -22,43 +41,85 @@ export class RetryAfterRateLimiter<Extra = never> extends RateLimiter<Extra> {
    * Clear all rate limits.
    */
   async clear(): Promise<void> {
-    await this.retryAfter.clear();
+    await this.retryAfter?.clear();
+    await this.countOnlyRetryAfter.clear();
     return await super.clear();
   }
 
+  /**
+   * Reset the limits for a single client, or identifier.
+   * @param {RequestEvent | string} target The event, or an identifier that will be used for all plugins.
+   */
+  override async reset(target: RequestEvent | string, extraData?: Extra) {
+    if (this.retryAfter && typeof target != 'string') {
+      await this.retryAfter.prepare?.(target);
+    }
+
+    await super.reset(target, extraData);
+  }
+
+  protected override async resetHash(hash: string) {
+    await this.retryAfter?.delete?.(hash);
+    await this.countOnlyRetryAfter.delete(hash);
+  }
+
   /**
    * Check if a request event is rate limited.
    * @param {RequestEvent} event
-   * @returns {Promise<limited: boolean, retryAfter: number, reason: 'IP' | 'IPUA' | 'cookie' | number>} Rate limit status for the event.
+   * @returns {Promise<limited: boolean, retryAfter: number, reason: RateLimitReason>} Rate limit status for the event.
    */
   override async check(
     event: RequestEvent,
-    extraData?: Extra
+    ...args: RateLimiterCheckArgs<Extra>
   ): Promise<
-    | { limited: false; retryAfter: 0 }
+    | { limited: false; retryAfter: 0; rates?: RateCheckDetail[] }
     | {
         limited: true;
         retryAfter: number;
-        reason: 'IP' | 'IPUA' | 'cookie' | number;
+        reason: RateLimitReason;
+        rates?: RateCheckDetail[];
       }
   > {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await this._isLimited(event, extraData as any);
+    const { extraData, cost, verbose } = RateLimiter.checkArgs<Extra>(args);
+    const rates = verbose ? [] : undefined;
+    const result = await this._isLimited(event, extraData, cost, rates);
 
-    if (!result.limited) return { limited: false, retryAfter: 0 };
+    if (!result.limited) {
+      return { limited: false, retryAfter: 0, ...(rates && { rates }) };
+    }
 
     if (result.hash === null) {
       return {
         limited: true,
         retryAfter: RetryAfterRateLimiter.toSeconds(result.ttl),
-        reason: result.reason
+        reason: result.reason,
+        ...(rates && { rates })
       };
     }
 
-    const retryAfter = RetryAfterRateLimiter.toSeconds(
-      (await this.retryAfter.add(result.hash, result.ttl)) - Date.now()
-    );
+    // The limiting rate reports when it can be retried
+    let retryAt = this.rateLimitInfo(event)?.resetAt ?? Date.now() + result.ttl;
+
+    const store: RateLimiterStore | LegacyRateLimiterStore | undefined =
+      this.retryAfter ??
+      (this.countOnlyStore ? this.countOnlyRetryAfter : undefined);
+
+    if (store) {
+      await store.prepare?.(event);
+      const stored = await store.add(result.hash, result.ttl);
+      const storedAt = typeof stored == 'number' ? stored : stored.resetAt;
+      // An estimated reset restarts on every check, so it would never count down.
+      // Otherwise, a blocked client can have a later reset.
+      retryAt = this.countOnlyStore ? storedAt : Math.max(storedAt, retryAt);
+    }
+
+    const retryAfter = RetryAfterRateLimiter.toSeconds(retryAt - Date.now());
 
-    return { limited: true, retryAfter, reason: result.reason };
+    return {
+      limited: true,
+      retryAfter,
+      reason: result.reason,
+      ...(rates && { rates })
+    };
   }
 }
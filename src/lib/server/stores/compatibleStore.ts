@@ -0,0 +1,30 @@
+import type {
+  LegacyRateLimiterStore,
+  RateLimiterStore
+} from './rateLimiterStore.js';
+
+/**
+ * Wraps a store that may return a count from add, as allowed before
+ * RateLimiterStoreResult was required, using the ttl for the reset time.
+ * @param onCount Called when add returns only a count, so the reset time is an estimate.
+ */
+export function compatibleStore(
+  store: RateLimiterStore | LegacyRateLimiterStore,
+  onCount?: () => void
+): RateLimiterStore {
+  return {
+    algorithms: store.algorithms,
+    weighted: store.weighted,
+    add: async (...args) => {
+      const result = await store.add(...args);
+      if (typeof result != 'number') return result;
+      onCount?.();
+      return { count: result, resetAt: Date.now() + args[1] };
+    },
+    get: store.get?.bind(store),
+    delete: store.delete?.bind(store),
+    block: store.block?.bind(store),
+    clear: () => store.clear(),
+    prepare: store.prepare?.bind(store)
+  };
+}
@@ -0,0 +1,348 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+  blockedCount,
+  type RateLimiterStore,
+  type RateLimiterStoreResult
+} from './rateLimiterStore.js';
+import { consume, type AlgorithmState } from '../algorithms.js';
+import { rateAlgorithms, type TTLRate } from '../rate.js';
+import { PlatformBinding } from './platformBinding.js';
+
+/**
+ * The parts of a Cloudflare `DurableObjectNamespace` used by the store.
+ */
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): unknown;
+  get(id: never): {
+    fetch(input: string, init?: RequestInit): Promise<Response>;
+  };
+}
+
+/**
+ * The parts of `DurableObjectStorage` used by RateLimiterDurableObject.
+ */
+export interface DurableObjectStorageLike {
+  get<T>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+  deleteAll(): Promise<void>;
+  list<T>(options?: {
+    prefix?: string;
+    startAfter?: string;
+    limit?: number;
+  }): Promise<Map<string, T>>;
+  getAlarm?(): Promise<number | null>;
+  setAlarm?(time: number): Promise<void>;
+}
+
+export type DurableObjectStoreOptions = {
+  /**
+   * The Durable Object namespace, or the name of its binding in `event.platform.env`.
+   */
+  namespace: DurableObjectNamespaceLike | string;
+  /**
+   * Name prefix of the Durable Objects, must be unique for each store.
+   * Objects are named `prefix:shard`.
+   */
+  prefix: string;
+  /**
+   * Number of Durable Objects the hashes are spread over. Changing it
+   * moves the hashes to other objects, resetting their counts. Default 16
+   */
+  shards?: number;
+};
+
+type StoreRequest =
+  | {
+      op: 'add' | 'get';
+      hash: string;
+      ttl: number;
+      rate?: TTLRate;
+      cost: number;
+    }
+  | { op: 'block'; hash: string; ttl: number }
+  | { op: 'delete'; hash: string }
+  | { op: 'clear' };
+
+type Entry = { state: AlgorithmState; expires: number };
+
+/**
+ * A store for Cloudflare Workers, counting in a Durable Object, which handles
+ * the requests one at a time, so the counts are exact.
+ * The worker must export `RateLimiterDurableObject` for the binding.
+ */
+export class DurableObjectStore implements RateLimiterStore {
+  readonly algorithms = rateAlgorithms;
+  readonly weighted = true;
+  private readonly namespace: PlatformBinding<DurableObjectNamespaceLike>;
+  private readonly prefix: string;
+  private readonly shards: number;
+
+  constructor(options: DurableObjectStoreOptions) {
+    if (!options.prefix) {
+      throw new Error(
+        'A unique prefix is required for the Durable Object store.'
+      );
+    }
+    this.namespace = new PlatformBinding(options.namespace);
+    this.prefix = options.prefix;
+    this.shards = options.shards ?? 16;
+
+    if (!Number.isInteger(this.shards) || this.shards < 1) {
+      throw new Error(
+        `Invalid number of shards ${this.shards}, must be a positive integer.`
+      );
+    }
+  }
+
+  prepare(event: RequestEvent) {
+    this.namespace.prepare(event);
+  }
+
+  // FNV-1a, so a hash is always counted by the same object
+  private shard(hash: string) {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < hash.length; i++) {
+      h = Math.imul(h ^ hash.charCodeAt(i), 0x01000193);
+    }
+    return (h >>> 0) % this.shards;
+  }
+
+  private async send<T>(shard: number, request: StoreRequest): Promise<T> {
+    const namespace = this.namespace.get();
+    const id = namespace.idFromName(this.prefix + ':' + shard);
+    const stub = namespace.get(id as never);
+
+    const response = await stub.fetch('https://rate-limiter/', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Durable Object store request failed: ${response.status} ${await response.text()}`
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    return this.send<RateLimiterStoreResult>(this.shard(hash), {
+      op: 'add',
+      hash,
+      ttl,
+      rate,
+      cost
+    });
+  }
+
+  async get(hash: string, ttl: number, rate?: TTLRate) {
+    return this.send<RateLimiterStoreResult>(this.shard(hash), {
+      op: 'get',
+      hash,
+      ttl,
+      rate,
+      cost: 0
+    });
+  }
+
+  async block(hash: string, ttl: number) {
+    await this.send(this.shard(hash), { op: 'block', hash, ttl });
+  }
+
+  async delete(hash: string) {
+    await this.send(this.shard(hash), { op: 'delete', hash });
+  }
+
+  async clear() {
+    await Promise.all(
+      Array.from({ length: this.shards }, (_, shard) =>
+        this.send(shard, { op: 'clear' })
+      )
+    );
+  }
+}
+
+// Expired entries are removed by an alarm at this interval
+const cleanupInterval = 5 * 60 * 1000;
+
+// The storage API deletes at most 128 keys at a time
+const cleanupBatch = 128;
+
+/**
+ * The Durable Object for DurableObjectStore. Export it from the worker,
+ * and bind it in the wrangler configuration.
+ */
+export class RateLimiterDurableObject {
+  private readonly storage: DurableObjectStorageLike;
+
+  constructor(state: { storage: DurableObjectStorageLike }) {
+    this.storage = state.storage;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      const body = (await request.json()) as StoreRequest;
+      return Response.json((await this.run(body)) ?? null);
+    } catch (e) {
+      return new Response(e instanceof Error ? e.message : String(e), {
+        status: 400
+      });
+    }
+  }
+
+  async alarm() {
+    const now = Date.now();
+    let remaining = 0;
+    let startAfter: string | undefined;
+    let size: number;
+
+    // Listed in pages, so the whole storage isn't loaded at once
+    do {
+      const page = await this.storage.list<Entry | number>({
+        startAfter,
+        limit: cleanupBatch
+      });
+      const expired: string[] = [];
+
+      for (const [key, value] of page) {
+        const expires = typeof value == 'number' ? value : value.expires;
+        if (expires <= now) expired.push(key);
+        else remaining++;
+        startAfter = key;
+      }
+
+      if (expired.length) await this.storage.delete(expired);
+      size = page.size;
+    } while (size == cleanupBatch);
+
+    if (remaining) await this.scheduleCleanup();
+  }
+
+  private async scheduleCleanup() {
+    if (!this.storage.setAlarm || !this.storage.getAlarm) return;
+    if ((await this.storage.getAlarm()) === null) {
+      await this.storage.setAlarm(Date.now() + cleanupInterval);
+    }
+  }
+
+  private async run(request: StoreRequest) {
+    const now = Date.now();
+
+    switch (request.op) {
+      case 'add':
+      case 'get': {
+        const { hash, ttl, rate, cost } = request;
+
+        const blockedUntil = await this.storage.get<number>('block:' + hash);
+        if (blockedUntil && blockedUntil > now) {
+          return { count: blockedCount, resetAt: blockedUntil };
+        }
+
+        const entry = await this.storage.get<Entry>('hash:' + hash);
+        const result = consume(
+          entry && entry.expires > now ? entry.state : undefined,
+          rate ?? { limit: Infinity, ttl, algorithm: 'fixed-window' },
+          now,
+          cost
+        );
+
+        if (cost != 0) {
+          await this.storage.put<Entry>('hash:' + hash, {
+            state: result.state,
+            expires: now + result.ttl
+          });
+          await this.scheduleCleanup();
+        }
+
+        return { count: result.count, resetAt: result.resetAt };
+      }
+      case 'block':
+        await this.storage.put('block:' + request.hash, now + request.ttl);
+        await this.scheduleCleanup();
+        return;
+      case 'delete':
+        await this.storage.delete([
+          'hash:' + request.hash,
+          'block:' + request.hash
+        ]);
+        return;
+      case 'clear':
+        await this.storage.deleteAll();
+        return;
+    }
+  }
+}
+
+class MemoryDurableObjectStorage implements DurableObjectStorageLike {
+  private readonly data = new Map<string, unknown>();
+
+  async get<T>(key: string) {
+    return structuredClone(this.data.get(key)) as T | undefined;
+  }
+
+  async put<T>(key: string, value: T) {
+    this.data.set(key, structuredClone(value));
+  }
+
+  async delete(keys: string[]) {
+    return keys.filter((key) => this.data.delete(key)).length;
+  }
+
+  async deleteAll() {
+    this.data.clear();
+  }
+
+  async list<T>(
+    options: { prefix?: string; startAfter?: string; limit?: number } = {}
+  ) {
+    const { prefix = '', startAfter, limit = Infinity } = options;
+    const entries = [...this.data]
+      .filter(([key]) => key.startsWith(prefix))
+      .filter(([key]) => startAfter === undefined || key > startAfter)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return new Map(entries.slice(0, limit)) as Map<string, T>;
+  }
+}
+
+/**
+ * An in-memory stand-in for the Durable Object namespace of RateLimiterDurableObject,
+ * for testing and local development. Like a Durable Object, it handles one request at a time.
+ */
+export class MemoryDurableObjectNamespace
+  implements DurableObjectNamespaceLike
+{
+  private readonly objects = new Map<
+    string,
+    { object: RateLimiterDurableObject; queue: Promise<unknown> }
+  >();
+
+  idFromName(name: string) {
+    return name;
+  }
+
+  get(id: string) {
+    let instance = this.objects.get(id);
+    if (!instance) {
+      instance = {
+        object: new RateLimiterDurableObject({
+          storage: new MemoryDurableObjectStorage()
+        }),
+        queue: Promise.resolve()
+      };
+      this.objects.set(id, instance);
+    }
+
+    const current = instance;
+    return {
+      fetch: (input: string, init?: RequestInit) => {
+        const response = current.queue.then(() =>
+          current.object.fetch(new Request(input, init))
+        );
+        current.queue = response.catch(() => undefined);
+        return response;
+      }
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import type TTLCache from '@isaacs/ttlcache';
+import { TTLStore } from './ttlStore.js';
+import type { TTLRate } from '../rate.js';
+
+export type FileStoreOptions = {
+  /**
+   * Path of the file where the store is saved.
+   */
+  path: string;
+  /**
+   * Time in ms between saves of the changes. Default 1000
+   */
+  saveInterval?: number;
+  /**
+   * Max number of hashes in the store. Default Infinity
+   */
+  maxItems?: number;
+};
+
+// Entries are saved with their expiry time, so the downtime counts towards their TTL
+type SavedEntry = [hash: string, value: unknown, expires: number];
+type Snapshot = Record<string, SavedEntry[]>;
+
+function saveCache<T>(cache: TTLCache<string, T>, now: number) {
+  const entries: SavedEntry[] = [];
+  for (const [hash, value] of cache.entries()) {
+    const ttl = cache.getRemainingTTL(hash);
+    if (ttl > 0) entries.push([hash, value, now + ttl]);
+  }
+  return entries;
+}
+
+function loadCache<T>(
+  cache: TTLCache<string, T>,
+  entries: SavedEntry[] | undefined,
+  now: number
+) {
+  for (const [hash, value, expires] of entries ?? []) {
+    if (expires > now) {
+      cache.set(hash, value as T, { ttl: Math.ceil(expires - now) });
+    }
+  }
+}
+
+/**
+ * Saves the stores to a file, replacing it atomically so a crash
+ * while writing leaves the previous version intact.
+ */
+class SnapshotFile {
+  private readonly path: string;
+  private readonly saveInterval: number;
+  private readonly collect: (now: number) => Snapshot;
+  private readonly restore: (snapshot: Snapshot, now: number) => void;
+  private loading: Promise<void> | undefined;
+  private saving: Promise<void> = Promise.resolve();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    options: FileStoreOptions,
+    collect: (now: number) => Snapshot,
+    restore: (snapshot: Snapshot, now: number) => void
+  ) {
+    this.path = options.path;
+    this.saveInterval = options.saveInterval ?? 1000;
+    this.collect = collect;
+    this.restore = restore;
+  }
+
+  // Imported when used, so the stores can be bundled for other runtimes than Node
+  private fs() {
+    return import('node:fs/promises');
+  }
+
+  ready() {
+    // A failed read is retried on the next operation
+    this.loading ??= this.load().catch((e) => {
+      this.loading = undefined;
+      throw e;
+    });
+    return this.loading;
+  }
+
+  private async load() {
+    const fs = await this.fs();
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code == 'ENOENT') return;
+      throw e;
+    }
+
+    try {
+      this.restore(JSON.parse(content) as Snapshot, Date.now());
+    } catch (e) {
+      console.warn(
+        `RateLimiter: Could not read the store file ${this.path}, starting empty.`,
+        e
+      );
+    }
+  }
+
+  changed() {
+    if (this.timer) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.save().catch((e) =>
+        console.warn(
+          `RateLimiter: Could not save the store file ${this.path}.`,
+          e
+        )
+      );
+    }, this.saveInterval);
+    this.timer.unref?.();
+  }
+
+  save() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    // Saves are queued, so an earlier snapshot can't replace a later one
+    const save = this.saving.then(() => this.write());
+    this.saving = save.catch(() => undefined);
+    return save;
+  }
+
+  private async write() {
+    const fs = await this.fs();
+    const content = JSON.stringify(this.collect(Date.now()));
+    const temp = `${this.path}.${process.pid}.tmp`;
+
+    const file = await fs.open(temp, 'w');
+    try {
+      await file.writeFile(content, 'utf8');
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await fs.rename(temp, this.path);
+  }
+}
+
+/**
+ * A TTLStore saved to a file, for keeping the limits, blocks and bans
+ * of a single server instance across restarts. It's loaded when first used,
+ * and saved at most once every saveInterval ms. Call save before
+ * shutting down, to keep the latest changes.
+ */
+export class FileStore extends TTLStore {
+  private readonly file: SnapshotFile;
+
+  constructor(options: FileStoreOptions) {
+    super(Infinity, options.maxItems);
+    this.file = new SnapshotFile(
+      options,
+      (now) => ({
+        cache: saveCache(this.cache, now),
+        blocked: saveCache(this.blocked, now)
+      }),
+      (snapshot, now) => {
+        loadCache(this.cache, snapshot.cache, now);
+        loadCache(this.blocked, snapshot.blocked, now);
+      }
+    );
+  }
+
+  /**
+   * Save the store to the file now.
+   */
+  async save() {
+    await this.file.ready();
+    await this.file.save();
+  }
+
+  override async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    await this.file.ready();
+    const result = await super.add(hash, ttl, rate, cost);
+    this.file.changed();
+    return result;
+  }
+
+  override async get(hash: string, ttl: number, rate?: TTLRate) {
+    await this.file.ready();
+    return super.get(hash, ttl, rate);
+  }
+
+  override async delete(hash: string) {
+    await this.file.ready();
+    await super.delete(hash);
+    this.file.changed();
+  }
+
+  override async block(hash: string, ttl: number) {
+    await this.file.ready();
+    await super.block(hash, ttl);
+    this.file.changed();
+  }
+
+  override async clear() {
+    await this.file.ready();
+    await super.clear();
+    this.file.changed();
+  }
+}
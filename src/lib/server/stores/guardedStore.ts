@@ -0,0 +1,164 @@
+import {
+  blockedCount,
+  type RateLimiterStore,
+  type RateLimiterStoreResult
+} from './rateLimiterStore.js';
+import type { RateLimiterStoreErrorPayload } from '../hooks.js';
+
+export type StoreFailurePolicy = 'open' | 'closed';
+
+export type GuardedStoreOptions = {
+  /**
+   * Called for every failed operation, also when the fallback store succeeds.
+   */
+  onError?: (payload: RateLimiterStoreErrorPayload) => Promise<void>;
+  /**
+   * Allow ('open') or limit ('closed') requests when the store fails,
+   * instead of throwing the error.
+   */
+  failure?: StoreFailurePolicy;
+  /**
+   * Time in ms before an operation fails.
+   */
+  timeout?: number;
+  /**
+   * Store used when an operation of the main store fails.
+   */
+  fallback?: RateLimiterStore;
+};
+
+function withTimeout<T>(promise: Promise<T>, ms: number | undefined) {
+  if (!ms) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Store operation timed out after ${ms} ms`)),
+      ms
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Wraps a store, reporting errors of its operations and handling them
+ * with a fallback store or a failure policy. Without a policy,
+ * errors are rethrown when there is no fallback, or it fails as well.
+ */
+export function guardedStore(
+  store: RateLimiterStore,
+  options: GuardedStoreOptions
+): RateLimiterStore {
+  const { fallback, failure } = options;
+  const chain = fallback ? [store, fallback] : [store];
+
+  /**
+   * Runs the operation on the stores in order, until one succeeds.
+   */
+  async function call<T>(
+    stores: RateLimiterStore[],
+    operation: RateLimiterStoreErrorPayload['operation'],
+    hash: string | undefined,
+    run: (store: RateLimiterStore) => T | Promise<T>,
+    failed: () => T
+  ): Promise<T> {
+    let error: unknown;
+
+    for (const current of stores) {
+      // A fallback store may not support the operation
+      if (!current[operation]) continue;
+
+      try {
+        return await withTimeout(
+          Promise.resolve().then(() => run(current)),
+          options.timeout
+        );
+      } catch (e) {
+        error = e;
+        await options.onError?.({
+          operation,
+          hash,
+          error: e,
+          ...(current === fallback && { fallback: true })
+        });
+      }
+    }
+
+    if (!failure) throw error;
+    return failed();
+  }
+
+  // Both stores are changed, since the fallback may have counted hits
+  async function callAll(
+    operation: 'delete' | 'clear',
+    hash: string | undefined,
+    run: (store: RateLimiterStore) => void | Promise<void>
+  ) {
+    for (const current of chain) {
+      await call([current], operation, hash, run, () => undefined);
+    }
+  }
+
+  const failedResult = (ttl: number): RateLimiterStoreResult => ({
+    count: failure == 'closed' ? blockedCount : 0,
+    resetAt: Date.now() + ttl
+  });
+
+  const supported = (s: RateLimiterStore) =>
+    s.algorithms ?? (['fixed-window'] as const);
+
+  return {
+    algorithms: fallback
+      ? supported(store).filter((a) => supported(fallback).includes(a))
+      : store.algorithms,
+    weighted: fallback ? store.weighted && fallback.weighted : store.weighted,
+    add: (...args) =>
+      call(
+        chain,
+        'add',
+        args[0],
+        (s) => s.add(...args),
+        () => failedResult(args[1])
+      ),
+    get:
+      store.get &&
+      ((...args) =>
+        call(
+          chain,
+          'get',
+          args[0],
+          (s) => s.get!(...args),
+          () => failedResult(args[1])
+        )),
+    delete:
+      store.delete &&
+      ((hash) => callAll('delete', hash, (s) => s.delete?.(hash))),
+    block:
+      store.block &&
+      ((...args) =>
+        call(
+          chain,
+          'block',
+          args[0],
+          (s) => s.block!(...args),
+          () => undefined
+        )),
+    clear: () => callAll('clear', undefined, (s) => s.clear()),
+    // When the main store can't be prepared, its operations fail over as well
+    prepare: async (event) => {
+      for (const current of chain) {
+        if (!current.prepare) continue;
+        await call(
+          [current],
+          'prepare',
+          undefined,
+          (s) => s.prepare!(event),
+          () => undefined
+        ).catch((e) => {
+          if (current === fallback || !fallback) throw e;
+        });
+      }
+    }
+  };
+}
@@ -1,4 +1,37 @@
-export type { RateLimiterStore } from './rateLimiterStore.js';
+export type {
+  RateLimiterStore,
+  RateLimiterStoreResult,
+  LegacyRateLimiterStore
+} from './rateLimiterStore.js';
+export type { StoreFailurePolicy } from './guardedStore.js';
 
 export { TTLStore } from './ttlStore.js';
 export { RetryAfterStore } from './retryAfterStore.js';
+export {
+  RedisStore,
+  type RedisStoreClient,
+  type RedisStoreOptions
+} from './redisStore.js';
+export {
+  DurableObjectStore,
+  RateLimiterDurableObject,
+  MemoryDurableObjectNamespace,
+  type DurableObjectNamespaceLike,
+  type DurableObjectStorageLike,
+  type DurableObjectStoreOptions
+} from './durableObjectStore.js';
+export {
+  KVStore,
+  MemoryKVNamespace,
+  type KVNamespaceLike,
+  type KVStoreOptions
+} from './kvStore.js';
+export {
+  SqlStore,
+  sqlStoreSchema,
+  type SqlDialect,
+  type SqlExecutor,
+  type SqlStoreOptions
+} from './sqlStore.js';
+export { TieredStore, type TieredStoreOptions } from './tieredStore.js';
+export { FileStore, type FileStoreOptions } from './fileStore.js';
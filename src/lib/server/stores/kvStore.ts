@@ -0,0 +1,177 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import {
+  blockedCount,
+  type RateLimiterStore,
+  type RateLimiterStoreResult
+} from './rateLimiterStore.js';
+import { consume, type AlgorithmState } from '../algorithms.js';
+import { rateAlgorithms, type TTLRate } from '../rate.js';
+import { PlatformBinding } from './platformBinding.js';
+import { StoreKeys, type StoreKeysOptions } from './storeKeys.js';
+
+/**
+ * The parts of a Cloudflare `KVNamespace` used by the store.
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number }
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+export type KVStoreOptions = StoreKeysOptions & {
+  /**
+   * The KV namespace, or the name of its binding in `event.platform.env`.
+   */
+  namespace: KVNamespaceLike | string;
+};
+
+type Entry = { state: AlgorithmState; expires: number };
+
+// Expiration in KV must be at least 60 seconds
+const minExpiration = 60;
+
+/**
+ * A store for Cloudflare Workers KV. KV is eventually consistent and
+ * its writes aren't atomic, so concurrent and distant requests can be
+ * undercounted. Use it for coarse limits, and DurableObjectStore for exact ones.
+ */
+export class KVStore implements RateLimiterStore {
+  readonly algorithms = rateAlgorithms;
+  readonly weighted = true;
+  private readonly namespace: PlatformBinding<KVNamespaceLike>;
+  private readonly keys: StoreKeys;
+
+  constructor(options: KVStoreOptions) {
+    this.keys = new StoreKeys(options, 'KV');
+    this.namespace = new PlatformBinding(options.namespace);
+  }
+
+  prepare(event: RequestEvent) {
+    this.namespace.prepare(event);
+  }
+
+  private blockKey(hash: string) {
+    return this.keys.key(hash) + '/block';
+  }
+
+  private async put(key: string, value: unknown, expires: number) {
+    const seconds = Math.ceil((expires - Date.now()) / 1000);
+    await this.namespace.get().put(key, JSON.stringify(value), {
+      expirationTtl: Math.max(minExpiration, seconds)
+    });
+  }
+
+  private async run(
+    hash: string,
+    ttl: number,
+    rate: TTLRate | undefined,
+    cost: number
+  ): Promise<RateLimiterStoreResult> {
+    const kv = this.namespace.get();
+    const now = Date.now();
+
+    const blockedUntil = (await kv.get(this.blockKey(hash), 'json')) as
+      | number
+      | null;
+    if (blockedUntil && blockedUntil > now) {
+      return { count: blockedCount, resetAt: blockedUntil };
+    }
+
+    // Entries are kept for at least a minute, so the expiry is checked here
+    const entry = (await kv.get(this.keys.key(hash), 'json')) as Entry | null;
+    const result = consume(
+      entry && entry.expires > now ? entry.state : undefined,
+      rate ?? { limit: Infinity, ttl, algorithm: 'fixed-window' },
+      now,
+      cost
+    );
+
+    if (cost != 0) {
+      const expires = now + result.ttl;
+      await this.put(
+        this.keys.key(hash),
+        { state: result.state, expires },
+        expires
+      );
+    }
+
+    return { count: result.count, resetAt: result.resetAt };
+  }
+
+  async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    return this.run(hash, ttl, rate, cost);
+  }
+
+  async get(hash: string, ttl: number, rate?: TTLRate) {
+    return this.run(hash, ttl, rate, 0);
+  }
+
+  async block(hash: string, ttl: number) {
+    const blockedUntil = Date.now() + ttl;
+    await this.put(this.blockKey(hash), blockedUntil, blockedUntil);
+  }
+
+  async delete(hash: string) {
+    const kv = this.namespace.get();
+    await kv.delete(this.keys.key(hash));
+    await kv.delete(this.blockKey(hash));
+  }
+
+  async clear() {
+    const kv = this.namespace.get();
+    let cursor: string | undefined = undefined;
+
+    do {
+      const list = await kv.list({ prefix: this.keys.prefix, cursor });
+      for (const { name } of list.keys) {
+        if (this.keys.owns(name)) await kv.delete(name);
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+  }
+}
+
+/**
+ * An in-memory stand-in for a KV namespace, for testing and local development.
+ */
+export class MemoryKVNamespace implements KVNamespaceLike {
+  private readonly data = new Map<string, { value: string; expires: number }>();
+
+  async get(key: string) {
+    const item = this.data.get(key);
+    if (!item) return null;
+    if (item.expires <= Date.now()) {
+      this.data.delete(key);
+      return null;
+    }
+    return JSON.parse(item.value) as unknown;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }) {
+    const ttl = options?.expirationTtl;
+    this.data.set(key, {
+      value,
+      expires: ttl ? Date.now() + ttl * 1000 : Infinity
+    });
+  }
+
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}) {
+    const keys = [...this.data.keys()]
+      .filter((name) => name.startsWith(options.prefix ?? ''))
+      .map((name) => ({ name }));
+    return { keys, list_complete: true };
+  }
+}
@@ -0,0 +1,38 @@
+import type { RequestEvent } from '@sveltejs/kit';
+
+/**
+ * Resolves a binding, given directly or by its name in `event.platform.env`.
+ * Bindings are the same for every request, so the first one found is kept.
+ */
+export class PlatformBinding<T> {
+  private binding: T | undefined;
+  private readonly name: string | undefined;
+
+  constructor(binding: T | string) {
+    if (typeof binding == 'string') this.name = binding;
+    else this.binding = binding;
+  }
+
+  prepare(event: RequestEvent) {
+    if (this.binding || !this.name) return;
+
+    const env = (
+      event.platform as { env?: Record<string, unknown> } | undefined
+    )?.env;
+    const binding = env?.[this.name] as T | undefined;
+
+    if (!binding) {
+      throw new Error(`Binding "${this.name}" not found in platform.env.`);
+    }
+    this.binding = binding;
+  }
+
+  get(): T {
+    if (!this.binding) {
+      throw new Error(
+        `Binding "${this.name}" is not available before a request event has been checked.`
+      );
+    }
+    return this.binding;
+  }
+}
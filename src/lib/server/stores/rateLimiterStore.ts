@@ -1,4 +1,82 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { RateAlgorithm, TTLRate } from '../rate.js';
+
+/**
+ * Count returned by the stores for blocked hashes.
+ */
+export const blockedCount = Number.MAX_SAFE_INTEGER;
+
+export type RateLimiterStoreResult = {
+  count: number;
+  /**
+   * Unix timestamp (ms) when the rate resets.
+   */
+  resetAt: number;
+};
+
 export interface RateLimiterStore {
-  add: (hash: string, ttl: number) => number | Promise<number>;
+  /**
+   * Count a hit for the hash, returning the current count and its reset time.
+   * The rate is supplied when counting for a RateLimiter, and
+   * can be ignored by stores only supporting the fixed-window algorithm.
+   * The cost (default 1) is only used by weighted stores, and can be negative.
+   * A cost exceeding the limit of the rate should not be counted.
+   */
+  add: (
+    hash: string,
+    ttl: number,
+    rate?: TTLRate,
+    cost?: number
+  ) => RateLimiterStoreResult | Promise<RateLimiterStoreResult>;
+  /**
+   * Get the current count for the hash without counting a hit.
+   * Optional, but required for RateLimiter.peek.
+   */
+  get?: (
+    hash: string,
+    ttl: number,
+    rate?: TTLRate
+  ) => RateLimiterStoreResult | Promise<RateLimiterStoreResult>;
+  /**
+   * Remove the count and any block for the hash.
+   * Optional, but required for RateLimiter.reset.
+   */
+  delete?: (hash: string) => void | Promise<void>;
+  /**
+   * Block the hash for ttl ms, during which add and get should return blockedCount
+   * and the block expiry as resetAt. Optional, but required for RateLimiter.block.
+   */
+  block?: (hash: string, ttl: number) => void | Promise<void>;
   clear: () => void | Promise<void>;
+  /**
+   * Called with the request event before the store is used for it, for stores
+   * depending on the request, like Cloudflare bindings in `event.platform.env`.
+   * Optional.
+   */
+  prepare?: (event: RequestEvent) => void | Promise<void>;
+  /**
+   * Algorithms supported by the store, defaults to fixed-window only.
+   */
+  readonly algorithms?: readonly RateAlgorithm[];
+  /**
+   * True if the store handles the cost parameter of add.
+   * Required for RateLimiter.refund and penalize.
+   */
+  readonly weighted?: boolean;
 }
+
+/**
+ * @deprecated A store returning a number from add: the count for a RateLimiter,
+ * or the retry time for a RetryAfterRateLimiter. Return a RateLimiterStoreResult instead.
+ */
+export type LegacyRateLimiterStore = Omit<RateLimiterStore, 'add'> & {
+  add: (
+    hash: string,
+    ttl: number,
+    rate?: TTLRate,
+    cost?: number
+  ) =>
+    | number
+    | RateLimiterStoreResult
+    | Promise<number | RateLimiterStoreResult>;
+};
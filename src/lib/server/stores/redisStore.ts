@@ -0,0 +1,259 @@
+import {
+  blockedCount,
+  type RateLimiterStore,
+  type RateLimiterStoreResult
+} from './rateLimiterStore.js';
+import { rateAlgorithms, type RateAlgorithm, type TTLRate } from '../rate.js';
+import { StoreKeys, type StoreKeysOptions } from './storeKeys.js';
+
+/**
+ * Minimal Redis client interface, adapt your client to it:
+ *
+ * ioredis: `{ eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args) }`
+ *
+ * node-redis: `{ eval: (script, keys, args) => client.eval(script, { keys, arguments: args }) }`
+ */
+export interface RedisStoreClient {
+  eval: (script: string, keys: string[], args: string[]) => Promise<unknown>;
+  /**
+   * One step of `SCAN cursor MATCH pattern COUNT count`, used by `clear`.
+   * Without it, the scan runs in a script, which only reaches a single server.
+   *
+   * ioredis: `(cursor, pattern, count) => redis.scan(cursor, 'MATCH', pattern, 'COUNT', count)`
+   */
+  scan?: (
+    cursor: string,
+    pattern: string,
+    count: number
+  ) => Promise<[cursor: string, keys: string[]]>;
+}
+
+export type RedisStoreOptions = StoreKeysOptions & {
+  client: RedisStoreClient;
+};
+
+// KEYS: counter, block
+// ARGV: now, ttl, limit, capacity, unique member, cost
+// With a cost of 0, the current count is returned without writing anything.
+const blockCheck = `
+local blocked = tonumber(redis.call('GET', KEYS[2]))
+if blocked then return { ${blockedCount}, blocked } end
+`;
+
+const scripts: Record<RateAlgorithm, string> = {
+  'fixed-window': `
+local limit = tonumber(ARGV[3])
+local cost = tonumber(ARGV[6])
+local current = tonumber(redis.call('GET', KEYS[1])) or 0
+local count = math.max(0, current + cost)
+-- Limited hits are not counted, a negative limit counts every hit
+if cost ~= 0 and (limit < 0 or count <= limit) then
+  redis.call('INCRBY', KEYS[1], count - current)
+end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  ttl = tonumber(ARGV[2])
+  if cost ~= 0 then redis.call('PEXPIRE', KEYS[1], ttl) end
+end
+return { count, tonumber(ARGV[1]) + ttl }
+`,
+  'sliding-window-log': `
+local now = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+local cost = tonumber(ARGV[6])
+local expired = now - ttl
+local count = redis.call('ZCOUNT', KEYS[1], '(' .. expired, '+inf') + cost
+local limited = count > tonumber(ARGV[3])
+if cost ~= 0 and not limited then
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', expired)
+  if cost > 0 then
+    for i = 1, cost do
+      redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':' .. i)
+    end
+  else
+    redis.call('ZREMRANGEBYRANK', KEYS[1], cost, -1)
+  end
+  redis.call('PEXPIRE', KEYS[1], ttl)
+end
+local hit
+if limited then
+  hit = redis.call('ZRANGEBYSCORE', KEYS[1], '(' .. expired, '+inf', 'WITHSCORES', 'LIMIT', 0, 1)
+else
+  hit = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+end
+local time = tonumber(hit[2])
+if not time or time <= expired then time = now end
+return { count, time + ttl }
+`,
+  'sliding-window-counter': `
+local now = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local cost = tonumber(ARGV[6])
+local start = now - (now % ttl)
+local state = redis.call('HMGET', KEYS[1], 'start', 'current', 'previous')
+local stateStart = tonumber(state[1])
+local current = 0
+local previous = 0
+if stateStart == start then
+  current = tonumber(state[2])
+  previous = tonumber(state[3])
+elseif stateStart == start - ttl then
+  previous = tonumber(state[2])
+end
+local weight = (ttl - (now - start)) / ttl
+local count = math.floor(previous * weight) + current + cost
+local resetAt = start + ttl
+if count > limit then
+  local room = limit - current
+  if room > 0 and previous > 0 then
+    resetAt = math.min(resetAt, start + math.floor(ttl * (1 - room / previous)) + 1)
+  end
+elseif cost ~= 0 then
+  current = math.max(0, current + cost)
+  redis.call('HSET', KEYS[1], 'start', start, 'current', current, 'previous', previous)
+  redis.call('PEXPIRE', KEYS[1], start + 2 * ttl - now)
+end
+return { count, resetAt }
+`,
+  'token-bucket': `
+local now = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+local capacity = tonumber(ARGV[4])
+local cost = tonumber(ARGV[6])
+local refill = tonumber(ARGV[3]) / ttl
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(state[1])
+local updated = tonumber(state[2])
+if tokens and updated then
+  tokens = math.min(capacity, tokens + (now - updated) * refill)
+else
+  tokens = capacity
+end
+local count = math.ceil(capacity - tokens + cost)
+local resetAt
+if count > capacity then
+  resetAt = now + math.ceil((cost - tokens) / refill)
+else
+  tokens = math.min(capacity, tokens - cost)
+  resetAt = now + math.ceil((capacity - tokens) / refill)
+  if cost ~= 0 then
+    redis.call('HSET', KEYS[1], 'tokens', tokens, 'updated', now)
+    redis.call('PEXPIRE', KEYS[1], math.max(1, math.ceil((capacity - tokens) / refill)))
+  end
+end
+return { count, resetAt }
+`
+};
+
+// ARGV: cursor, match pattern, count
+const scanScript = `
+return redis.call('SCAN', ARGV[1], 'MATCH', ARGV[2], 'COUNT', ARGV[3])
+`;
+
+const deleteScript = `
+redis.call('DEL', unpack(KEYS))
+return 0
+`;
+
+// Keys scanned and deleted at a time by clear
+const clearBatch = 100;
+
+const blockScript = `
+local blockedUntil = tonumber(ARGV[1]) + tonumber(ARGV[2])
+redis.call('SET', KEYS[1], blockedUntil, 'PX', ARGV[2])
+return blockedUntil
+`;
+
+/**
+ * A store for multiple server instances, counting atomically with Lua scripts.
+ */
+export class RedisStore implements RateLimiterStore {
+  readonly algorithms = rateAlgorithms;
+  readonly weighted = true;
+  private readonly client: RedisStoreClient;
+  private readonly keys: StoreKeys;
+
+  constructor(options: RedisStoreOptions) {
+    this.keys = new StoreKeys(options, 'Redis');
+    this.client = options.client;
+  }
+
+  private blockKey(hash: string) {
+    return this.keys.key(hash) + '/block';
+  }
+
+  async delete(hash: string) {
+    await this.client.eval(
+      deleteScript,
+      [this.keys.key(hash), this.blockKey(hash)],
+      []
+    );
+  }
+
+  private async scan(cursor: string, pattern: string) {
+    if (this.client.scan) {
+      return this.client.scan(cursor, pattern, clearBatch);
+    }
+    return (await this.client.eval(
+      scanScript,
+      [],
+      [cursor, pattern, clearBatch.toString()]
+    )) as [string, string[]];
+  }
+
+  async clear() {
+    const pattern = this.keys.prefix.replace(/[*?[\]\\]/g, '\\$&') + '*';
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.scan(cursor, pattern);
+      const own = keys.filter((key) => this.keys.owns(key));
+      if (own.length) await this.client.eval(deleteScript, own, []);
+      cursor = String(next);
+    } while (cursor != '0');
+  }
+
+  async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    return this.run(hash, ttl, rate, cost);
+  }
+
+  async block(hash: string, ttl: number) {
+    await this.client.eval(
+      blockScript,
+      [this.blockKey(hash)],
+      [Date.now().toString(), ttl.toString()]
+    );
+  }
+
+  async get(hash: string, ttl: number, rate?: TTLRate) {
+    return this.run(hash, ttl, rate, 0);
+  }
+
+  private async run(
+    hash: string,
+    ttl: number,
+    rate: TTLRate | undefined,
+    cost: number
+  ): Promise<RateLimiterStoreResult> {
+    const now = Date.now();
+    const algorithm = rate?.algorithm ?? 'fixed-window';
+    // Without a rate, fixed-window counts every hit
+    const limit = rate?.limit ?? -1;
+
+    const [count, resetAt] = (await this.client.eval(
+      blockCheck + scripts[algorithm],
+      [this.keys.key(hash), this.blockKey(hash)],
+      [
+        now.toString(),
+        ttl.toString(),
+        limit.toString(),
+        (rate?.burst ?? limit).toString(),
+        now + '-' + Math.random().toString(36).slice(2),
+        cost.toString()
+      ]
+    )) as [number, number];
+
+    return { count: Number(count), resetAt: Number(resetAt) };
+  }
+}
@@ -1,7 +1,11 @@
-import type { RateLimiterStore } from './rateLimiterStore.js';
+import type { LegacyRateLimiterStore } from './rateLimiterStore.js';
 import TTLCache from '@isaacs/ttlcache';
 
-export class RetryAfterStore implements RateLimiterStore {
+/**
+ * @deprecated RetryAfterRateLimiter calculates the retry time from its store,
+ * so this store isn't needed anymore.
+ */
+export class RetryAfterStore implements LegacyRateLimiterStore {
   private cache: TTLCache<string, number>;
 
   constructor(maxItems = Infinity) {
@@ -15,6 +19,10 @@ export class RetryAfterStore implements RateLimiterStore {
     return this.cache.clear();
   }
 
+  async delete(hash: string) {
+    this.cache.delete(hash);
+  }
+
   async add(hash: string, ttl: number) {
     const currentRate = this.cache.get(hash);
     if (currentRate) return this.cache.get(hash) ?? 0;
@@ -0,0 +1,207 @@
+import {
+  blockedCount,
+  type RateLimiterStore,
+  type RateLimiterStoreResult
+} from './rateLimiterStore.js';
+import type { TTLRate } from '../rate.js';
+import { StoreKeys, type StoreKeysOptions } from './storeKeys.js';
+
+/**
+ * Minimal query interface, adapt your database client to it.
+ * Statements use numbered parameters, `$1` for Postgres and `?1` for SQLite.
+ * Postgres parameters are cast explicitly, so they can be passed as numbers or strings.
+ *
+ * pg: `{ query: async (sql, params) => (await pool.query(sql, params)).rows }`
+ *
+ * better-sqlite3: `{ query: async (sql, params) => { const s = db.prepare(sql); return s.reader ? s.all(params) : (s.run(params), []); } }`
+ */
+export interface SqlExecutor {
+  query: (sql: string, params: unknown[]) => Promise<Record<string, unknown>[]>;
+}
+
+export type SqlDialect = 'postgres' | 'sqlite';
+
+export type SqlStoreOptions = StoreKeysOptions & {
+  executor: SqlExecutor;
+  dialect: SqlDialect;
+  /**
+   * Table for the counts, created with `migrate`. Default `rate_limits`
+   */
+  table?: string;
+  /**
+   * Minimum time in ms between removing expired rows, which is done when counting. Default 60 seconds, 0 disables it.
+   */
+  cleanupInterval?: number;
+};
+
+/**
+ * Statements creating the table for SqlStore, for your own migrations.
+ */
+export function sqlStoreSchema(
+  dialect: SqlDialect,
+  table = 'rate_limits'
+): string[] {
+  validateTable(table);
+  const int = dialect == 'postgres' ? 'BIGINT' : 'INTEGER';
+  const index = table.replace(/\./g, '_') + '_expires';
+
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table} (
+  hash TEXT PRIMARY KEY,
+  count ${int} NOT NULL,
+  attempted ${int} NOT NULL,
+  reset_at ${int} NOT NULL,
+  blocked_until ${int} NOT NULL DEFAULT 0
+)`,
+    `CREATE INDEX IF NOT EXISTS ${index} ON ${table} (reset_at)`
+  ];
+}
+
+function validateTable(table: string) {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(table)) {
+    throw new Error('Invalid table name for SqlStore: ' + table);
+  }
+}
+
+/**
+ * A store for Postgres or SQLite, counting atomically with upsert statements.
+ * Supports the fixed-window algorithm.
+ */
+export class SqlStore implements RateLimiterStore {
+  readonly weighted = true;
+  private readonly executor: SqlExecutor;
+  private readonly dialect: SqlDialect;
+  private readonly keys: StoreKeys;
+  private readonly table: string;
+  private readonly cleanupInterval: number;
+  private lastCleanup = Date.now();
+  private readonly sql: { add: string; get: string; block: string };
+
+  constructor(options: SqlStoreOptions) {
+    this.keys = new StoreKeys(options, 'SQL');
+    this.executor = options.executor;
+    this.dialect = options.dialect;
+    this.table = options.table ?? 'rate_limits';
+    this.cleanupInterval = options.cleanupInterval ?? 60000;
+
+    validateTable(this.table);
+
+    const t = this.table;
+    const p = (n: number) => this.param(n, n == 1 ? 'text' : 'bigint');
+    const max = this.dialect == 'postgres' ? 'GREATEST' : 'MAX';
+
+    // $1 hash, $2 cost, $3 limit (-1 for none), $4 now, $5 end of a new window
+    const base = `CASE WHEN ${t}.reset_at <= ${p(4)} THEN 0 ELSE ${t}.count END`;
+    const attempted = `${max}(0, ${base} + ${p(2)})`;
+
+    // A blocked row isn't updated, so nothing is returned
+    this.sql = {
+      add: `INSERT INTO ${t} (hash, count, attempted, reset_at)
+VALUES (${p(1)}, CASE WHEN ${p(3)} < 0 OR ${max}(0, ${p(2)}) <= ${p(3)} THEN ${max}(0, ${p(2)}) ELSE 0 END, ${max}(0, ${p(2)}), ${p(5)})
+ON CONFLICT (hash) DO UPDATE SET
+  count = CASE WHEN ${p(3)} < 0 OR ${attempted} <= ${p(3)} THEN ${attempted} ELSE ${base} END,
+  attempted = ${attempted},
+  reset_at = CASE WHEN ${t}.reset_at <= ${p(4)} THEN ${p(5)} ELSE ${t}.reset_at END
+WHERE ${t}.blocked_until <= ${p(4)}
+RETURNING attempted, reset_at`,
+      get: `SELECT count, reset_at, blocked_until FROM ${t} WHERE hash = ${p(1)}`,
+      block: `INSERT INTO ${t} (hash, count, attempted, reset_at, blocked_until)
+VALUES (${p(1)}, 0, 0, 0, ${p(2)})
+ON CONFLICT (hash) DO UPDATE SET blocked_until = ${p(2)}`
+    };
+  }
+
+  /**
+   * Create the table for the store, if it doesn't exist.
+   */
+  async migrate() {
+    for (const statement of sqlStoreSchema(this.dialect, this.table)) {
+      await this.executor.query(statement, []);
+    }
+  }
+
+  // Postgres infers untyped parameters compared to literals as integer, too small
+  // for the timestamps and large limits
+  private param(n: number, type: 'text' | 'integer' | 'bigint') {
+    return this.dialect == 'postgres' ? `$${n}::${type}` : `?${n}`;
+  }
+
+  async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    const now = Date.now();
+    const [row] = await this.executor.query(this.sql.add, [
+      this.keys.key(hash),
+      cost,
+      rate?.limit ?? -1,
+      now,
+      now + ttl
+    ]);
+
+    this.scheduleCleanup(now);
+
+    if (!row) return this.get(hash, ttl);
+    return { count: Number(row.attempted), resetAt: Number(row.reset_at) };
+  }
+
+  async get(hash: string, ttl: number): Promise<RateLimiterStoreResult> {
+    const now = Date.now();
+    const [row] = await this.executor.query(this.sql.get, [
+      this.keys.key(hash)
+    ]);
+
+    if (row && Number(row.blocked_until) > now) {
+      return { count: blockedCount, resetAt: Number(row.blocked_until) };
+    }
+    if (!row || Number(row.reset_at) <= now) {
+      return { count: 0, resetAt: now + ttl };
+    }
+    return { count: Number(row.count), resetAt: Number(row.reset_at) };
+  }
+
+  async block(hash: string, ttl: number) {
+    await this.executor.query(this.sql.block, [
+      this.keys.key(hash),
+      Date.now() + ttl
+    ]);
+  }
+
+  async delete(hash: string) {
+    await this.executor.query(
+      `DELETE FROM ${this.table} WHERE hash = ${this.param(1, 'text')}`,
+      [this.keys.key(hash)]
+    );
+  }
+
+  // Deletes the rows owned by the store, like StoreKeys.owns
+  async clear() {
+    const length = this.param(1, 'integer');
+    const find = this.dialect == 'postgres' ? 'strpos' : 'instr';
+    await this.executor.query(
+      `DELETE FROM ${this.table} WHERE substr(hash, 1, ${length}) = ${this.param(2, 'text')}
+AND ${find}(substr(hash, ${length} + 1), '${StoreKeys.separator}') = 0`,
+      [this.keys.prefix.length, this.keys.prefix]
+    );
+  }
+
+  /**
+   * Remove the expired rows of all stores using the table.
+   */
+  async cleanup() {
+    const now = Date.now();
+    this.lastCleanup = now;
+
+    const p = this.param(1, 'bigint');
+    await this.executor.query(
+      `DELETE FROM ${this.table} WHERE reset_at <= ${p} AND blocked_until <= ${p}`,
+      [now]
+    );
+  }
+
+  private scheduleCleanup(now: number) {
+    if (!this.cleanupInterval || now - this.lastCleanup < this.cleanupInterval)
+      return;
+
+    this.cleanup().catch((e) =>
+      console.warn('RateLimiter: Could not remove expired rows.', e)
+    );
+  }
+}
@@ -0,0 +1,35 @@
+export type StoreKeysOptions = {
+  /**
+   * Key prefix, must be unique for each store. Keys are stored as `prefix:hash`.
+   */
+  prefix: string;
+};
+
+/**
+ * Keys of a store sharing a database with other stores.
+ * Hashes are encoded, so they never contain the separator or a slash, and a key
+ * with a separator after the prefix belongs to another store: clearing prefix "a"
+ * must not remove the keys of prefix "a:b".
+ */
+export class StoreKeys {
+  static readonly separator = ':';
+  readonly prefix: string;
+
+  constructor(options: StoreKeysOptions, store: string) {
+    if (!options.prefix) {
+      throw new Error(`A unique prefix is required for the ${store} store.`);
+    }
+    this.prefix = options.prefix + StoreKeys.separator;
+  }
+
+  key(hash: string) {
+    return this.prefix + encodeURIComponent(hash);
+  }
+
+  owns(key: string) {
+    return (
+      key.startsWith(this.prefix) &&
+      !key.slice(this.prefix.length).includes(StoreKeys.separator)
+    );
+  }
+}
@@ -0,0 +1,234 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import TTLCache from '@isaacs/ttlcache';
+import {
+  blockedCount,
+  type LegacyRateLimiterStore,
+  type RateLimiterStore
+} from './rateLimiterStore.js';
+import { compatibleStore } from './compatibleStore.js';
+import type { TTLRate } from '../rate.js';
+
+export type TieredStoreOptions = {
+  /**
+   * The shared store, which must be weighted to count batched hits.
+   */
+  store: RateLimiterStore | LegacyRateLimiterStore;
+  /**
+   * Time in ms before hits counted locally are sent to the shared store. Default 1000
+   */
+  flushInterval?: number;
+  /**
+   * Number of hits counted locally that are sent at once, without waiting for the interval. Default 100
+   */
+  batchSize?: number;
+  /**
+   * Part of the limit (0-1) from which hits are counted in the shared store
+   * before responding. 0 counts every hit in the shared store. Default 0.5
+   */
+  syncThreshold?: number;
+  /**
+   * Max number of hashes cached locally. Default Infinity
+   */
+  maxItems?: number;
+};
+
+type Entry = {
+  /**
+   * Last count returned by the shared store.
+   */
+  shared: number;
+  /**
+   * Hits counted locally, not yet sent to the shared store.
+   */
+  pending: number;
+  resetAt: number;
+};
+
+/**
+ * A local cache in front of a shared store, counting hits locally and
+ * sending them to the shared store in batches. When the count of a hash
+ * reaches the sync threshold, its hits are counted in the shared store before
+ * responding. Supports the fixed-window algorithm.
+ *
+ * Hits that aren't sent yet are unknown to the other server instances,
+ * so with N instances, at most `(N - 1) * syncThreshold * limit` requests
+ * more than the limit can be allowed in a window.
+ */
+export class TieredStore implements RateLimiterStore {
+  readonly weighted = true;
+  readonly get?: RateLimiterStore['get'];
+  readonly delete?: RateLimiterStore['delete'];
+  readonly block?: RateLimiterStore['block'];
+
+  private readonly store: RateLimiterStore;
+  private readonly flushInterval: number;
+  private readonly batchSize: number;
+  private readonly syncThreshold: number;
+  private readonly entries: TTLCache<string, Entry>;
+  private readonly dirty = new Set<string>();
+  private pendingHits = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: TieredStoreOptions) {
+    const store = compatibleStore(options.store);
+
+    if (!store.weighted) {
+      throw new Error('The shared store of TieredStore must be weighted.');
+    }
+
+    this.store = store;
+    this.flushInterval = options.flushInterval ?? 1000;
+    this.batchSize = options.batchSize ?? 100;
+    this.syncThreshold = options.syncThreshold ?? 0.5;
+    this.entries = new TTLCache({ max: options.maxItems ?? Infinity });
+
+    if (this.syncThreshold < 0 || this.syncThreshold > 1) {
+      throw new Error(
+        `Invalid syncThreshold ${this.syncThreshold}, must be between 0 and 1.`
+      );
+    }
+
+    if (store.get) {
+      const get = store.get.bind(store);
+      this.get = async (hash, ttl, rate) => {
+        const result = await get(hash, ttl, rate);
+        const pending = this.entries.get(hash)?.pending ?? 0;
+        return result.count == blockedCount
+          ? result
+          : {
+              count: Math.max(0, result.count + pending),
+              resetAt: result.resetAt
+            };
+      };
+    }
+
+    if (store.delete) {
+      const remove = store.delete.bind(store);
+      this.delete = async (hash) => {
+        this.forget(hash);
+        await remove(hash);
+      };
+    }
+
+    if (store.block) {
+      const block = store.block.bind(store);
+      this.block = async (hash, ttl) => {
+        this.forget(hash);
+        await block(hash, ttl);
+      };
+    }
+  }
+
+  async prepare(event: RequestEvent) {
+    await this.store.prepare?.(event);
+  }
+
+  async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    const now = Date.now();
+    const entry = this.entries.get(hash);
+    const limit = rate?.limit ?? Infinity;
+
+    if (entry && entry.shared == blockedCount) {
+      return { count: blockedCount, resetAt: entry.resetAt };
+    }
+
+    const count = entry ? Math.max(0, entry.shared + entry.pending + cost) : 0;
+
+    if (!entry || count > limit * this.syncThreshold) {
+      // Send the pending hits first, so the shared count is up to date
+      if (entry) await this.flushEntry(hash, entry);
+
+      const result = await this.store.add(hash, ttl, rate, cost);
+      this.entries.set(
+        hash,
+        {
+          shared: result.count,
+          pending: entry?.pending ?? 0,
+          resetAt: result.resetAt
+        },
+        { ttl: Math.max(1, result.resetAt - now) }
+      );
+      return result;
+    }
+
+    entry.pending += cost;
+    this.dirty.add(hash);
+    this.pendingHits += Math.abs(cost);
+
+    if (this.pendingHits >= this.batchSize) {
+      this.flush().catch((e) =>
+        console.warn('RateLimiter: Could not sync with the shared store.', e)
+      );
+    } else {
+      this.scheduleFlush();
+    }
+
+    return { count, resetAt: entry.resetAt };
+  }
+
+  /**
+   * Send all hits counted locally to the shared store.
+   */
+  async flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pendingHits = 0;
+
+    const hashes = [...this.dirty];
+    this.dirty.clear();
+
+    await Promise.all(
+      hashes.map((hash) => {
+        const entry = this.entries.get(hash);
+        return entry ? this.flushEntry(hash, entry) : undefined;
+      })
+    );
+  }
+
+  async clear() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pendingHits = 0;
+    this.dirty.clear();
+    this.entries.clear();
+    await this.store.clear();
+  }
+
+  private forget(hash: string) {
+    this.entries.delete(hash);
+    this.dirty.delete(hash);
+  }
+
+  private scheduleFlush() {
+    if (this.timer) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush().catch((e) =>
+        console.warn('RateLimiter: Could not sync with the shared store.', e)
+      );
+    }, this.flushInterval);
+    this.timer.unref?.();
+  }
+
+  private async flushEntry(hash: string, entry: Entry) {
+    const cost = entry.pending;
+    const ttl = entry.resetAt - Date.now();
+    entry.pending = 0;
+
+    // Hits of an ended window don't count anymore
+    if (!cost || ttl <= 0) return;
+
+    try {
+      // Allowed hits are counted without a limit, so the batch isn't rejected
+      const result = await this.store.add(hash, ttl, undefined, cost);
+      entry.shared = result.count;
+      entry.resetAt = result.resetAt;
+    } catch (e) {
+      entry.pending += cost;
+      this.dirty.add(hash);
+      this.scheduleFlush();
+      throw e;
+    }
+  }
+}
@@ -1,28 +1,64 @@
-import type { RateLimiterStore } from './rateLimiterStore.js';
+import { blockedCount, type RateLimiterStore } from './rateLimiterStore.js';
 import TTLCache from '@isaacs/ttlcache';
+import { consume, type AlgorithmState } from '../algorithms.js';
+import { rateAlgorithms, type TTLRate } from '../rate.js';
+
+function fixedWindow(ttl: number): TTLRate {
+  return { limit: Infinity, ttl, algorithm: 'fixed-window' };
+}
 
 export class TTLStore implements RateLimiterStore {
-  private cache: TTLCache<string, number>;
+  readonly algorithms = rateAlgorithms;
+  readonly weighted = true;
+  protected cache: TTLCache<string, AlgorithmState>;
+  protected blocked: TTLCache<string, number>;
 
   constructor(maxTTL: number, maxItems = Infinity) {
     this.cache = new TTLCache({
       ttl: maxTTL,
-      max: maxItems,
-      noUpdateTTL: true
+      max: maxItems
     });
+    this.blocked = new TTLCache({ max: maxItems });
   }
 
   async clear() {
+    this.blocked.clear();
     return this.cache.clear();
   }
 
-  async add(hash: string, ttl: number) {
-    const currentRate = this.cache.get(hash) ?? 0;
-    return this.set(hash, currentRate + 1, ttl);
+  async add(hash: string, ttl: number, rate?: TTLRate, cost = 1) {
+    const blockedUntil = this.blocked.get(hash);
+    if (blockedUntil) return { count: blockedCount, resetAt: blockedUntil };
+
+    const result = consume(
+      this.cache.get(hash),
+      rate ?? fixedWindow(ttl),
+      Date.now(),
+      cost
+    );
+    this.cache.set(hash, result.state, { ttl: result.ttl });
+    return { count: result.count, resetAt: result.resetAt };
+  }
+
+  async get(hash: string, ttl: number, rate?: TTLRate) {
+    const blockedUntil = this.blocked.get(hash);
+    if (blockedUntil) return { count: blockedCount, resetAt: blockedUntil };
+
+    const result = consume(
+      this.cache.get(hash),
+      rate ?? fixedWindow(ttl),
+      Date.now(),
+      0
+    );
+    return { count: result.count, resetAt: result.resetAt };
+  }
+
+  async delete(hash: string) {
+    this.blocked.delete(hash);
+    this.cache.delete(hash);
   }
 
-  private set(hash: string, rate: number, ttl: number): number {
-    this.cache.set(hash, rate, { ttl });
-    return rate;
+  async block(hash: string, ttl: number) {
+    this.blocked.set(hash, Date.now() + ttl, { ttl });
   }
 }
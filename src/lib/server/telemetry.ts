@@ -0,0 +1,93 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import type { RateLimiterHooks } from './hooks.js';
+
+export type MetricAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of an OpenTelemetry `Meter` used by the hooks,
+ * so `metrics.getMeter(...)` from `@opentelemetry/api` can be passed directly.
+ */
+export type MeterLike = {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: MetricAttributes): void };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: MetricAttributes): void };
+};
+
+export type TelemetryHooksOptions = {
+  /**
+   * Name of the limiter, added as the `rate_limiter.name` attribute.
+   */
+  name?: string;
+  /**
+   * Prefix for the metric names. Default `rate_limiter`
+   */
+  prefix?: string;
+};
+
+/**
+ * Creates hooks recording counters and a check duration histogram with an
+ * OpenTelemetry meter. The metrics have the route id as the `http.route` attribute.
+ */
+export function createTelemetryHooks(
+  meter: MeterLike,
+  options: TelemetryHooksOptions = {}
+): RateLimiterHooks {
+  const prefix = options.prefix ?? 'rate_limiter';
+
+  const checks = meter.createCounter(prefix + '.checks', {
+    description: 'Number of rate limit checks'
+  });
+  const limited = meter.createCounter(prefix + '.limited', {
+    description: 'Number of limited requests'
+  });
+  const bypassed = meter.createCounter(prefix + '.bypassed', {
+    description: 'Number of requests allowed by a plugin returning true'
+  });
+  const storeErrors = meter.createCounter(prefix + '.store_errors', {
+    description: 'Number of failed store operations'
+  });
+  const preflights = meter.createCounter(prefix + '.preflights', {
+    description: 'Number of cookies issued by the cookie limiter'
+  });
+  const duration = meter.createHistogram(prefix + '.check.duration', {
+    description: 'Duration of the rate limit checks',
+    unit: 'ms'
+  });
+
+  function attributes(event?: RequestEvent, extra: MetricAttributes = {}) {
+    const output: MetricAttributes = { ...extra };
+    if (options.name) output['rate_limiter.name'] = options.name;
+    if (event) output['http.route'] = event.route?.id ?? '';
+    return output;
+  }
+
+  return {
+    onCheck({ event, limited: isLimited, duration: ms }) {
+      const attrs = attributes(event, {
+        'rate_limiter.result': isLimited ? 'limited' : 'allowed'
+      });
+      checks.add(1, attrs);
+      duration.record(ms, attrs);
+    },
+    onLimited({ event, reason }) {
+      limited.add(1, attributes(event, { 'rate_limiter.reason': reason }));
+    },
+    onBypass({ event, plugin }) {
+      bypassed.add(1, attributes(event, { 'rate_limiter.plugin': plugin }));
+    },
+    onStoreError({ operation }) {
+      storeErrors.add(
+        1,
+        attributes(undefined, { 'rate_limiter.operation': operation })
+      );
+    },
+    onPreflightIssued({ event }) {
+      preflights.add(1, attributes(event));
+    }
+  };
+}
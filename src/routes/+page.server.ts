@@ -16,10 +16,8 @@ export const load = (async () => {
 export const actions = {
   default: async (event) => {
     const status = await limiter.check(event);
+    limiter.setRateLimitHeaders(event);
     if (status.limited) {
-      event.setHeaders({
-        'Retry-After': status.retryAfter.toString()
-      });
       return fail(429, {
         reason: status.reason,
         retryAfter: status.retryAfter